@@ -0,0 +1,77 @@
+import sharp from 'sharp';
+import { describe, expect, it } from 'vitest';
+import { computePerceptualHash, findDuplicateClusters, getDuplicatesInputKey, hammingDistance } from './duplicates';
+import type { DuplicateCandidate } from './duplicates';
+
+// Greyscale image whose brightness follows `shade`, encoded as `format`
+function createImage(width: number, height: number, shade: (x: number, y: number) => number, format: 'png' | 'jpeg' = 'png'): Promise<Buffer> {
+  const pixels = Buffer.alloc(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) pixels[y * width + x] = shade(x / width, y / height);
+  }
+  return sharp(pixels, { raw: { width, height, channels: 1 } }).toFormat(format).toBuffer();
+}
+
+function candidate(id: string, perceptualHash: string, size = 100, hash = id): DuplicateCandidate {
+  return { id, width: size, height: size, hash, perceptualHash };
+}
+
+describe('perceptual hash', () => {
+  it('sets a bit wherever the right neighbour is brighter', async () => {
+    expect(await computePerceptualHash(await createImage(90, 80, (x) => 20 + x * 200))).toBe('ffffffffffffffff');
+    expect(await computePerceptualHash(await createImage(90, 80, (x) => 220 - x * 200))).toBe('0000000000000000');
+  });
+
+  it('barely changes when the picture is resized and recompressed', async () => {
+    const shade = (x: number, y: number) => 128 + 100 * Math.sin(x * 9) * Math.cos(y * 7);
+    const original = await computePerceptualHash(await createImage(900, 600, shade));
+    const copy = await computePerceptualHash(await createImage(300, 200, shade, 'jpeg'));
+
+    expect(hammingDistance(original, copy)).toBeLessThanOrEqual(2);
+  });
+
+  it('counts differing bits', () => {
+    expect(hammingDistance('0000000000000000', '0000000000000000')).toBe(0);
+    expect(hammingDistance('0000000000000000', 'ffffffffffffffff')).toBe(64);
+    expect(hammingDistance('00000000000000f0', '0000000000000011')).toBe(4);
+  });
+});
+
+describe('duplicate clusters', () => {
+  it('joins images transitively and keeps the largest, then the oldest', () => {
+    const clusters = findDuplicateClusters(
+      [
+        candidate('cat-3', '0000000000000000'),
+        candidate('cat-1', '0000000000000007'),
+        // Four bits from cat-3, but only one from cat-1
+        candidate('cat-2', '000000000000000f'),
+        candidate('cat-4', 'ffffffffffffffff'),
+      ],
+      3
+    );
+
+    expect(clusters).toEqual([{ kind: 'near', keep: 'cat-1', duplicates: ['cat-2', 'cat-3'], distance: 3 }]);
+  });
+
+  it('groups byte-identical files whatever their hashes say', () => {
+    const clusters = findDuplicateClusters(
+      [
+        candidate('cat-5', '0000000000000000', 100, 'same'),
+        candidate('cat-9', 'ffffffffffffffff', 200, 'same'),
+        candidate('cat-7', '00000000ffffffff'),
+      ],
+      6
+    );
+
+    expect(clusters).toEqual([{ kind: 'exact', keep: 'cat-9', duplicates: ['cat-5'], distance: 64 }]);
+  });
+
+  it('keys the input by everything the clusters depend on', () => {
+    const images = [candidate('cat-1', '0000000000000000'), candidate('cat-2', '0000000000000001')];
+    const key = getDuplicatesInputKey(images, 6);
+
+    expect(getDuplicatesInputKey(images.map((image) => ({ ...image })), 6)).toBe(key);
+    expect(getDuplicatesInputKey(images, 5)).not.toBe(key);
+    expect(getDuplicatesInputKey([images[0], { ...images[1], width: 50 }], 6)).not.toBe(key);
+  });
+});
@@ -0,0 +1,153 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import { fileURLToPath } from 'url';
+
+// dHash: compare neighbouring pixels of a 9x8 greyscale thumbnail, one bit each
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Committed with the manifest: hashing every photo again after a fresh clone is
+// slow, and the clusters record what the last run found. Outside `public/`, the
+// site has no use for it
+const DUPLICATES_FILE = path.join(__dirname, '..', 'data', 'duplicates.json');
+// Bump when the file changes shape or the hash changes meaning
+const DUPLICATES_FILE_VERSION = 1;
+
+export interface DuplicateCandidate {
+  id: string;
+  width: number;
+  height: number;
+  // Content hash, equal for byte-identical files
+  hash: string;
+  perceptualHash: string;
+}
+
+export interface DuplicateCluster {
+  // Byte-identical files, or only similar pictures
+  kind: 'exact' | 'near';
+  // The copy that stays: the largest, then the oldest
+  keep: string;
+  duplicates: string[];
+  // Largest Hamming distance to the kept copy
+  distance: number;
+}
+
+export interface DuplicatesFile {
+  version: number;
+  threshold: number;
+  // What the clusters were computed from, see getDuplicatesInputKey
+  inputKey: string;
+  // By content hash, so a renamed or touched file keeps its hash
+  perceptualHashes: Record<string, string>;
+  clusters: DuplicateCluster[];
+}
+
+// Null when missing, unreadable or written by another version
+export function readDuplicatesFile(): DuplicatesFile | null {
+  try {
+    const file: DuplicatesFile = JSON.parse(fs.readFileSync(DUPLICATES_FILE, 'utf-8'));
+    if (file.version === DUPLICATES_FILE_VERSION) return file;
+  } catch {
+    // Missing or corrupt, every hash is computed again
+  }
+  return null;
+}
+
+export function writeDuplicatesFile(file: Omit<DuplicatesFile, 'version'>): void {
+  fs.mkdirSync(path.dirname(DUPLICATES_FILE), { recursive: true });
+  fs.writeFileSync(DUPLICATES_FILE, `${JSON.stringify({ version: DUPLICATES_FILE_VERSION, ...file }, null, 2)}\n`);
+}
+
+// Changes whenever findDuplicateClusters could give a different answer
+export function getDuplicatesInputKey(images: DuplicateCandidate[], threshold: number): string {
+  const hash = crypto.createHash('sha256').update(`${threshold}`);
+  for (const { id, width, height, hash: contentHash, perceptualHash } of images) {
+    hash.update(`\n${id}:${width}x${height}:${contentHash}:${perceptualHash}`);
+  }
+  return hash.digest('hex').slice(0, 16);
+}
+
+// 64-bit hash as 16 hex digits. Survives resizing, recompression and EXIF rotation
+export async function computePerceptualHash(buffer: Buffer): Promise<string> {
+  const pixels = await sharp(buffer)
+    .rotate()
+    .greyscale()
+    .resize(HASH_WIDTH, HASH_HEIGHT, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+
+  let hash = 0n;
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      const offset = y * HASH_WIDTH + x;
+      hash = (hash << 1n) | (pixels[offset] < pixels[offset + 1] ? 1n : 0n);
+    }
+  }
+  return hash.toString(16).padStart(16, '0');
+}
+
+export function hammingDistance(a: string, b: string): number {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let count = 0;
+  while (diff) {
+    diff &= diff - 1n;
+    count++;
+  }
+  return count;
+}
+
+function getImageNumber(id: string): number {
+  return parseInt(id.replace(/\D/g, ''), 10) || 0;
+}
+
+// Groups images whose hashes are within `threshold` bits, transitively. Pairwise is
+// fine for a few thousand images; a BK-tree would be the next step beyond that
+export function findDuplicateClusters(images: DuplicateCandidate[], threshold: number): DuplicateCluster[] {
+  const parent = images.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  for (let i = 0; i < images.length; i++) {
+    for (let j = i + 1; j < images.length; j++) {
+      if (
+        images[i].hash === images[j].hash ||
+        hammingDistance(images[i].perceptualHash, images[j].perceptualHash) <= threshold
+      ) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const groups = new Map<number, DuplicateCandidate[]>();
+  images.forEach((image, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) ?? []), image]);
+  });
+
+  const clusters: DuplicateCluster[] = [];
+  for (const members of groups.values()) {
+    if (members.length < 2) continue;
+
+    const [keep, ...duplicates] = members.sort(
+      (a, b) => b.width * b.height - a.width * a.height || getImageNumber(a.id) - getImageNumber(b.id)
+    );
+    clusters.push({
+      kind: duplicates.every((image) => image.hash === keep.hash) ? 'exact' : 'near',
+      keep: keep.id,
+      duplicates: duplicates.map((image) => image.id),
+      distance: Math.max(...duplicates.map((image) => hammingDistance(keep.perceptualHash, image.perceptualHash))),
+    });
+  }
+
+  return clusters.sort((a, b) => getImageNumber(a.keep) - getImageNumber(b.keep));
+}
@@ -0,0 +1,212 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { parseArgs } from 'util';
+import { parseImageMetadata } from '../src/lib/imageMetadata';
+import type { ImageMetadata } from '../src/types';
+import { readManifestChunks } from './manifest-chunks';
+import { getSourceHash, processImages } from './process-images';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const IMAGES_DIR = path.join(__dirname, '..', 'public', 'images');
+
+// The export only has the channel title, post links need its public username
+const DEFAULT_CHANNEL = 'tightpussies';
+
+const USAGE = 'Usage: npm run import-telegram -- <export dir> [--channel <username>] [--dry-run]';
+
+// The parts of Telegram Desktop's `result.json` the importer reads
+interface TelegramTextPart {
+  type: string;
+  text: string;
+}
+
+interface TelegramMessage {
+  id: number;
+  type: string;
+  date: string;
+  // Relative to the export folder, or a "(File not included…)" note when photos weren't exported
+  photo?: string;
+  text?: string | (string | TelegramTextPart)[];
+  text_entities?: TelegramTextPart[];
+  // Post signature, when the channel signs messages
+  author?: string;
+  forwarded_from?: string;
+}
+
+interface TelegramExport {
+  name?: string;
+  messages: TelegramMessage[];
+}
+
+function getPlainText(text: TelegramMessage['text']): string {
+  if (!text) return '';
+  if (typeof text === 'string') return text;
+  return text.map((part) => (typeof part === 'string' ? part : part.text)).join('');
+}
+
+function getHashtags(message: TelegramMessage): string[] {
+  return (message.text_entities ?? [])
+    .filter((entity) => entity.type === 'hashtag')
+    .map((entity) => entity.text.replace(/^#/, ''));
+}
+
+// Hashtags become tags, so they don't need to stay in the caption
+function getCaption(message: TelegramMessage): string | undefined {
+  let caption = getPlainText(message.text);
+  for (const tag of getHashtags(message)) {
+    caption = caption.replace(`#${tag}`, '');
+  }
+  caption = caption.replace(/[ \t]+\n/g, '\n').trim();
+  return caption || undefined;
+}
+
+// Post links already present in sidecars, so re-running on a newer export only adds what's new
+function readImportedPostUrls(): Set<string> {
+  const urls = new Set<string>();
+  for (const file of fs.readdirSync(IMAGES_DIR)) {
+    if (path.extname(file) !== '.json') continue;
+    try {
+      const { metadata } = parseImageMetadata(JSON.parse(fs.readFileSync(path.join(IMAGES_DIR, file), 'utf-8')));
+      if (metadata.postUrl) urls.add(metadata.postUrl);
+    } catch {
+      // process-images reports broken sidecars
+    }
+  }
+  return urls;
+}
+
+// Photos added by hand before the importer existed are recognised by content
+function readManifestIdsByHash(): Map<string, string> {
+  const ids = new Map<string, string>();
+  // Invalid entries are reported again by process-images at the end of the import
+  for (const image of readManifestChunks()?.manifest.images ?? []) {
+    if (image.hash) ids.set(image.hash, image.id);
+  }
+  return ids;
+}
+
+// Ids continue the `cat-N` sequence and are never reused, so links to existing cats keep working
+function getNextImageNumber(): number {
+  let max = 0;
+  for (const file of fs.readdirSync(IMAGES_DIR)) {
+    const match = /^cat-(\d+)\./.exec(file);
+    if (match) max = Math.max(max, Number(match[1]));
+  }
+  return max + 1;
+}
+
+async function importTelegram(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      channel: { type: 'string', default: DEFAULT_CHANNEL },
+      'dry-run': { type: 'boolean', default: false },
+    },
+  });
+
+  const exportDir = positionals[0];
+  if (!exportDir) {
+    console.error(USAGE);
+    process.exitCode = 1;
+    return;
+  }
+
+  const resultPath = path.join(exportDir, 'result.json');
+  if (!fs.existsSync(resultPath)) {
+    throw new Error(`${resultPath} not found, export the channel from Telegram Desktop as JSON`);
+  }
+
+  const result: TelegramExport = JSON.parse(fs.readFileSync(resultPath, 'utf-8'));
+  const channel = values.channel;
+  const dryRun = values['dry-run'];
+
+  console.log(`Reading export of "${result.name ?? 'unknown channel'}" (${result.messages.length} messages)`);
+
+  const imported = readImportedPostUrls();
+  const idsByHash = readManifestIdsByHash();
+  // Photos given a sidecar earlier in this run, which a dry run doesn't write
+  const describedIds = new Set<string>();
+  let nextNumber = getNextImageNumber();
+  let importedCount = 0;
+  let skippedCount = 0;
+  let linkedCount = 0;
+  let missingCount = 0;
+
+  const messages = result.messages
+    .filter((message) => message.type === 'message' && message.photo)
+    .sort((a, b) => a.id - b.id);
+
+  for (const message of messages) {
+    const postUrl = `https://t.me/${channel}/${message.id}`;
+    if (imported.has(postUrl)) {
+      skippedCount++;
+      continue;
+    }
+
+    const photoPath = path.join(exportDir, message.photo!);
+    if (!fs.existsSync(photoPath)) {
+      missingCount++;
+      if (missingCount <= 3) {
+        console.warn(`Photo for message ${message.id} is missing from the export: ${message.photo}`);
+      }
+      continue;
+    }
+
+    const buffer = fs.readFileSync(photoPath);
+    const hash = getSourceHash(buffer);
+    const existingId = idsByHash.get(hash);
+    // Already in the collection: only attach the post details, unless someone wrote a sidecar by
+    // hand or the same photo was posted twice and its first post is already attached
+    if (existingId && (describedIds.has(existingId) || fs.existsSync(path.join(IMAGES_DIR, `${existingId}.json`)))) {
+      skippedCount++;
+      continue;
+    }
+
+    const id = existingId ?? `cat-${nextNumber++}`;
+    const tags = getHashtags(message);
+    const metadata: ImageMetadata = {
+      caption: getCaption(message),
+      postUrl,
+      date: message.date.slice(0, 10),
+      credit: message.forwarded_from ?? message.author,
+      tags: tags.length > 0 ? tags : undefined,
+    };
+
+    console.log(`  ${postUrl} -> ${id}${existingId ? ' (existing photo)' : ''}`);
+
+    if (!dryRun) {
+      if (!existingId) fs.writeFileSync(path.join(IMAGES_DIR, `${id}.jpg`), buffer);
+      // undefined fields drop out of the JSON
+      fs.writeFileSync(path.join(IMAGES_DIR, `${id}.json`), `${JSON.stringify(metadata, null, 2)}\n`);
+    }
+
+    // Later posts of the same photo find it like any other photo in the collection
+    idsByHash.set(hash, id);
+    describedIds.add(id);
+    if (existingId) linkedCount++;
+    else importedCount++;
+  }
+
+  if (missingCount > 3) {
+    console.warn(`... and ${missingCount - 3} more missing photos`);
+  }
+
+  console.log(`\nImport ${dryRun ? 'dry run ' : ''}complete:`);
+  console.log(`  - Imported: ${importedCount} photos`);
+  console.log(`  - Linked to existing photos: ${linkedCount}`);
+  console.log(`  - Skipped (already imported): ${skippedCount}`);
+  console.log(`  - Missing from the export: ${missingCount}`);
+
+  if (importedCount + linkedCount > 0 && !dryRun) {
+    console.log('');
+    await processImages();
+  }
+}
+
+importTelegram().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
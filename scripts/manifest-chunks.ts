@@ -0,0 +1,66 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { getCollectionSize } from '../src/lib/layout';
+import { MANIFEST_VERSION, parseManifest, parseManifestIndex } from '../src/lib/manifest';
+import type { ManifestParseResult } from '../src/lib/manifest';
+import type { ImageManifest, ImageMeta, ManifestIndex } from '../src/types';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Served as static files, so new cats ship without rebuilding the app
+export const MANIFEST_DIR = path.join(__dirname, '..', 'public', 'manifest');
+const INDEX_FILE = path.join(MANIFEST_DIR, 'index.json');
+const CHUNK_PATTERN = /^images-\d+\.[0-9a-f]+\.json$/;
+
+// Writes `index.json` plus chunks of `chunkSize` images (0 for a single chunk) and
+// removes chunks left over from earlier runs. Chunk names carry a content hash,
+// so only the index needs revalidating
+export function writeManifestChunks(manifest: ImageManifest, chunkSize: number): ManifestIndex {
+  const size = chunkSize > 0 ? chunkSize : Math.max(1, manifest.images.length);
+  const chunks: string[] = [];
+
+  fs.mkdirSync(MANIFEST_DIR, { recursive: true });
+
+  for (let start = 0; start < manifest.images.length; start += size) {
+    const chunk: ImageManifest = { images: manifest.images.slice(start, start + size), version: manifest.version };
+    const json = JSON.stringify(chunk);
+    const hash = crypto.createHash('sha256').update(json).digest('hex').slice(0, 8);
+    const fileName = `images-${chunks.length}.${hash}.json`;
+    fs.writeFileSync(path.join(MANIFEST_DIR, fileName), json);
+    chunks.push(fileName);
+  }
+
+  // The world is sized for the whole collection, so the app needs it before the chunks arrive
+  const { imageCount, averageAspectRatio } = getCollectionSize(manifest.images);
+  const index: ManifestIndex = { version: manifest.version, imageCount, averageAspectRatio, chunks };
+  fs.writeFileSync(INDEX_FILE, `${JSON.stringify(index, null, 2)}\n`);
+
+  for (const fileName of fs.readdirSync(MANIFEST_DIR)) {
+    if (CHUNK_PATTERN.test(fileName) && !chunks.includes(fileName)) {
+      fs.rmSync(path.join(MANIFEST_DIR, fileName));
+    }
+  }
+
+  return index;
+}
+
+// The whole manifest, validated, and its index, or null before the first `process-images` run
+export function readManifestChunks(): (ManifestParseResult & { index: ManifestIndex }) | null {
+  if (!fs.existsSync(INDEX_FILE)) return null;
+
+  const index = parseManifestIndex(JSON.parse(fs.readFileSync(INDEX_FILE, 'utf-8')));
+  const seen = new Set<string>();
+  const images: ImageMeta[] = [];
+  const errors: string[] = [];
+
+  for (const chunk of index.chunks) {
+    const result = parseManifest(JSON.parse(fs.readFileSync(path.join(MANIFEST_DIR, chunk), 'utf-8')), seen);
+    images.push(...result.manifest.images);
+    errors.push(...result.errors.map((error) => `${chunk}: ${error}`));
+  }
+
+  return { manifest: { images, version: MANIFEST_VERSION }, errors, index };
+}
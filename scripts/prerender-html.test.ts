@@ -0,0 +1,144 @@
+import fs from 'fs';
+import path from 'path';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { computeGlobalLayout, getVisibleImages } from '../src/lib/globalLayout';
+import { DEFAULT_LAYOUT_CONFIG, getLayoutMediaQuery, getResponsiveLayoutConfig } from '../src/lib/layout';
+import type { CollectionSize, ViewportInfo } from '../src/lib/layout';
+import { getIndexCollectionSize, parseManifest } from '../src/lib/manifest';
+import type { ImageMeta, ManifestIndex } from '../src/types';
+import { MANIFEST_DIR, readManifestChunks } from './manifest-chunks';
+import { generatePrerender, PRERENDER_VIEWPORTS } from './prerender-html';
+import type { PrerenderResult } from './prerender-html';
+
+interface Tile {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Tiles of each prerendered layout as the markup places them, keyed by media query
+function parseTemplates(html: string): Map<string, Tile[]> {
+  const templates = new Map<string, Tile[]>();
+  for (const [, media, content] of html.matchAll(/<template data-media="([^"]*)">(.*?)<\/template>/g)) {
+    const tiles = [
+      ...content.matchAll(
+        /<div style="[^"]*left: (-?[\d.]+)px; top: (-?[\d.]+)px; width: ([\d.]+)px; height: ([\d.]+)px;[^"]*">.*?<img[^>]* src="[^"]*\/images\/([^/"]+)\.jpg"/g
+      ),
+    ].map(([, x, y, width, height, id]) => ({ id, x: Number(x), y: Number(y), width: Number(width), height: Number(height) }));
+    templates.set(media, tiles);
+  }
+  return templates;
+}
+
+// Evaluates the media queries getLayoutMediaQuery writes, the way matchMedia does
+function matchesMedia(media: string, { width, height, devicePixelRatio }: ViewportInfo): boolean {
+  return media.split(', ').some((query) => {
+    const conditions = [...query.matchAll(/\((min|max)-(width|height|resolution): ([\d.]+)(?:px|dppx)\)/g)];
+    if (conditions.length !== query.split(' and ').length) throw new Error(`Unexpected media query ${query}`);
+
+    return conditions.every(([, bound, feature, value]) => {
+      const actual = feature === 'width' ? width : feature === 'height' ? height : devicePixelRatio;
+      return bound === 'min' ? actual >= Number(value) : actual <= Number(value);
+    });
+  });
+}
+
+// Every bound in the queries and the pixel on either side of it
+function getBoundaryValues(medias: string[], feature: 'width' | 'height' | 'resolution', step: number): number[] {
+  const values = new Set<number>();
+  for (const media of medias) {
+    for (const [, value] of media.matchAll(new RegExp(`-${feature}: ([\\d.]+)`, 'g'))) {
+      for (const offset of [-step, 0, step]) values.add(Number(value) + offset);
+    }
+  }
+  return [...values].filter((value) => value > 0);
+}
+
+// What Canvas shows on a link without a position: the world origin at zoom 1
+function getRuntimeTiles(images: ImageMeta[], viewport: ViewportInfo, collection: CollectionSize): Tile[] {
+  const config = getResponsiveLayoutConfig(DEFAULT_LAYOUT_CONFIG, images, viewport, collection);
+  return getVisibleImages(computeGlobalLayout(images, config), 0, 0, viewport.width, viewport.height).map(
+    ({ image, renderX, renderY }) => ({ id: image.id, x: renderX, y: renderY, width: image.width, height: image.height })
+  );
+}
+
+describe('prerender', () => {
+  let images: ImageMeta[];
+  let index: ManifestIndex;
+  let prerender: PrerenderResult;
+
+  // The prerendered tiles for the layout Canvas picks at `viewport`
+  const getPrerenderedTiles = (viewport: ViewportInfo, collection: CollectionSize) => {
+    const media = getLayoutMediaQuery(DEFAULT_LAYOUT_CONFIG, images, viewport, collection);
+    return parseTemplates(prerender.html).get(media) ?? [];
+  };
+
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    ({ manifest: { images }, index } = readManifestChunks()!);
+    prerender = generatePrerender({}, {});
+  });
+
+  it.each(PRERENDER_VIEWPORTS)('places the tiles where Canvas does at $width x $height', (viewport) => {
+    const collection = getIndexCollectionSize(index, images);
+    const prerendered = getPrerenderedTiles(viewport, collection);
+
+    expect(prerendered.length).toBeGreaterThan(0);
+    expect(getRuntimeTiles(images, viewport, collection)).toEqual(expect.arrayContaining(prerendered));
+  });
+
+  it.each(PRERENDER_VIEWPORTS)('picks the layout of $width x $height for that viewport', (viewport) => {
+    const collection = getIndexCollectionSize(index, images);
+    const media = getLayoutMediaQuery(DEFAULT_LAYOUT_CONFIG, images, viewport, collection);
+
+    expect(matchesMedia(media, viewport)).toBe(true);
+    // The inline script takes the first template that matches
+    expect([...parseTemplates(prerender.html).keys()].find((query) => matchesMedia(query, viewport))).toBe(media);
+  });
+
+  it('only picks a template whose layout the runtime would compute, at every boundary', () => {
+    const collection = getIndexCollectionSize(index, images);
+    const configs = new Map(
+      PRERENDER_VIEWPORTS.map((viewport) => [
+        getLayoutMediaQuery(DEFAULT_LAYOUT_CONFIG, images, viewport, collection),
+        getResponsiveLayoutConfig(DEFAULT_LAYOUT_CONFIG, images, viewport, collection),
+      ])
+    );
+    const medias = [...parseTemplates(prerender.html).keys()];
+    const widths = [...getBoundaryValues(medias, 'width', 1), ...PRERENDER_VIEWPORTS.map((viewport) => viewport.width), 320];
+    const heights = [...getBoundaryValues(medias, 'height', 1), ...PRERENDER_VIEWPORTS.map((viewport) => viewport.height), 480];
+    const ratios = [...getBoundaryValues(medias, 'resolution', 0.001), 1, 1.5, 2, 2.625, 3];
+
+    let matched = 0;
+    for (const width of widths) {
+      for (const height of heights) {
+        for (const devicePixelRatio of ratios) {
+          const viewport = { width, height, devicePixelRatio };
+          const media = medias.find((query) => matchesMedia(query, viewport));
+          if (!media) continue;
+
+          matched++;
+          const { targetRowHeight, worldSize } = getResponsiveLayoutConfig(DEFAULT_LAYOUT_CONFIG, images, viewport, collection);
+          expect({ viewport, targetRowHeight, worldSize }).toEqual({
+            viewport,
+            targetRowHeight: configs.get(media)!.targetRowHeight,
+            worldSize: configs.get(media)!.worldSize,
+          });
+        }
+      }
+    }
+    expect(matched).toBeGreaterThan(0);
+  });
+
+  // Canvas starts with the first chunk; nothing prerendered may move when the rest arrives
+  it.each(PRERENDER_VIEWPORTS)('places the tiles where Canvas does with one chunk loaded at $width x $height', (viewport) => {
+    const firstChunk = parseManifest(JSON.parse(fs.readFileSync(path.join(MANIFEST_DIR, index.chunks[0]), 'utf-8'))).manifest.images;
+    const collection = getIndexCollectionSize(index, firstChunk);
+    const prerendered = getPrerenderedTiles(viewport, collection);
+
+    expect(prerendered.length).toBeGreaterThan(0);
+    expect(getRuntimeTiles(firstChunk, viewport, collection)).toEqual(expect.arrayContaining(prerendered));
+  });
+});
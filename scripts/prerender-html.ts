@@ -1,119 +1,161 @@
-import fs from 'fs';
-import path from 'path';
 import { fileURLToPath } from 'url';
+import { computeGlobalLayout, getVisibleImages } from '../src/lib/globalLayout';
+import type { GlobalLayout, VisibleImage } from '../src/lib/globalLayout';
+import { DEFAULT_LAYOUT_CONFIG, getLayoutMediaQuery, getResponsiveLayoutConfig } from '../src/lib/layout';
+import type { LayoutConfig, ViewportInfo } from '../src/lib/layout';
+import { createImageUrlProvider, FORMAT_MIME_TYPES, getSrcSet, PICTURE_FORMATS } from '../src/lib/imageProviders';
+import type { ImageProviderEnv, ImageUrlProvider } from '../src/lib/imageProviders';
+import { formatManifestErrors, getIndexCollectionSize } from '../src/lib/manifest';
+import { readManifestChunks } from './manifest-chunks';
+import type { ImageMeta, PlacedImage } from '../src/types';
 
 const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
 
-interface ImageMeta {
-  id: string;
-  width: number;
-  height: number;
-  aspectRatio: number;
+// How many images to prerender per layout, the rest fill in once React takes over
+const IMAGES_TO_PRERENDER = 24;
+// How many of them get a `<link rel="preload">` and fetchpriority="high"
+export const DEFAULT_PRELOAD_COUNT = 4;
+
+// The largest common screen of each row-height breakpoint in getResponsiveLayoutConfig.
+// Each gets its own prerendered layout, shown when the visitor's viewport produces
+// the same layout config; other viewports get no prerender rather than a wrong one
+export const PRERENDER_VIEWPORTS: ViewportInfo[] = [
+  { width: 430, height: 932, devicePixelRatio: 3 },
+  { width: 1024, height: 1366, devicePixelRatio: 2 },
+  { width: 1920, height: 1080, devicePixelRatio: 2 },
+  { width: 2560, height: 1440, devicePixelRatio: 1 },
+];
+
+interface PrerenderVariant {
+  // Media query matching the viewports this layout is right for
+  media: string;
+  visible: VisibleImage[];
 }
 
-interface PlacedImage {
-  id: string;
-  x: number;
-  y: number;
-  width: number;
-  height: number;
+// What Canvas shows before any panning: getInitialView starts at the world origin
+// at zoom 1 when the link has no position, and getVisibleImages picks the tiles
+function getInitialVisibleImages(layout: GlobalLayout, viewport: ViewportInfo): VisibleImage[] {
+  return getVisibleImages(layout, 0, 0, viewport.width, viewport.height)
+    .sort((a, b) => a.renderY - b.renderY || a.renderX - b.renderX)
+    .slice(0, IMAGES_TO_PRERENDER);
 }
 
-// Same constants as globalLayout.ts
-const WORLD_SIZE = 12000;
-const TARGET_ROW_HEIGHT = 320;
-const GAP = 30;
-
-// how many images to prerender
-const IMAGES_TO_PRERENDER = 10;
-
-function computeGlobalLayout(allImages: ImageMeta[]): PlacedImage[] {
-  const placedImages: PlacedImage[] = [];
-  let currentY = 0;
-  let imageIndex = 0;
-
-  while (currentY < WORLD_SIZE) {
-    const rowImages: { image: ImageMeta; naturalWidth: number }[] = [];
-    let totalNaturalWidth = 0;
-
-    while (imageIndex < allImages.length * 100) {
-      const image = allImages[imageIndex % allImages.length];
-      const naturalWidth = TARGET_ROW_HEIGHT * image.aspectRatio;
-      const gapsIfAdded = rowImages.length * GAP;
-      const widthIfAdded = totalNaturalWidth + naturalWidth + gapsIfAdded;
-
-      if (widthIfAdded > WORLD_SIZE && rowImages.length >= 2) break;
-
-      rowImages.push({ image, naturalWidth });
-      totalNaturalWidth += naturalWidth;
-      imageIndex++;
-    }
-
-    if (rowImages.length === 0) break;
+export interface PrerenderResult {
+  html: string;
+  // Attributes of the `<link rel="preload">` tags for the first prerendered images
+  preloads: Record<string, string>[];
+  // Every image URL in the prerendered HTML
+  urls: Set<string>;
+}
 
-    const numGaps = rowImages.length - 1;
-    const availableForImages = WORLD_SIZE - numGaps * GAP;
-    const scale = availableForImages / totalNaturalWidth;
-    let rowHeight = Math.round(TARGET_ROW_HEIGHT * scale);
+// Mirrors <Picture>: the tile is drawn at its layout width
+function getTileSizes(img: PlacedImage): string {
+  return `${img.width}px`;
+}
 
-    const remainingHeight = WORLD_SIZE - currentY - GAP;
-    if (rowHeight > remainingHeight) {
-      if (remainingHeight < 100) break;
-      rowHeight = remainingHeight;
-    }
+function getSrcSetUrls(srcset: string): string[] {
+  return srcset.split(',').map((candidate) => candidate.trim().split(/\s+/)[0]).filter(Boolean);
+}
 
-    let currentX = 0;
-    for (let i = 0; i < rowImages.length; i++) {
-      const item = rowImages[i];
-      let width: number;
-      if (i === rowImages.length - 1) {
-        width = WORLD_SIZE - currentX - GAP;
-      } else {
-        width = Math.round(item.naturalWidth * scale);
+// Same candidates and sizes as the tile's first <source>, so the browser reuses the
+// preloaded response instead of fetching another width. `media` limits them to the
+// viewports the layout is shown on
+function getPreloadLinks(
+  variant: PrerenderVariant,
+  imagesById: Map<string, ImageMeta>,
+  provider: ImageUrlProvider,
+  count: number
+): Record<string, string>[] {
+  return variant.visible.slice(0, count).flatMap(({ image: img }): Record<string, string>[] => {
+    const meta = imagesById.get(img.id);
+    if (!meta) return [];
+
+    const link = { rel: 'preload', as: 'image', media: variant.media, fetchpriority: 'high' };
+    for (const format of PICTURE_FORMATS) {
+      const srcset = getSrcSet(provider, meta, format);
+      if (srcset) {
+        return [{ ...link, type: FORMAT_MIME_TYPES[format], imagesrcset: srcset, imagesizes: getTileSizes(img) }];
       }
-
-      placedImages.push({
-        id: item.image.id,
-        x: currentX,
-        y: currentY,
-        width,
-        height: rowHeight,
-      });
-
-      currentX += width + GAP;
     }
+    return [{ ...link, href: provider.getOriginalUrl(meta) }];
+  });
+}
 
-    currentY += rowHeight + GAP;
+// Image preloads in `html` that don't point at any prerendered image, e.g. tags
+// written by hand into index.html that the layout has since moved away from
+export function findStrayPreloads(html: string, result: PrerenderResult): string[] {
+  const stray: string[] = [];
+  for (const [tag] of html.matchAll(/<link\b[^>]*\brel="preload"[^>]*>/g)) {
+    if (!/\bas="image"/.test(tag)) continue;
+
+    const srcset = /\bimagesrcset="([^"]*)"/.exec(tag)?.[1];
+    const href = /\bhref="([^"]*)"/.exec(tag)?.[1];
+    const urls = srcset ? getSrcSetUrls(srcset) : href ? [href] : [];
+    if (!urls.some((url) => result.urls.has(url))) stray.push(tag);
   }
-
-  return placedImages;
+  return stray;
 }
 
-function getInitialVisibleImages(
-  layout: PlacedImage[],
-  viewWidth: number,
-  viewHeight: number
-): PlacedImage[] {
-  const visible: PlacedImage[] = [];
-
-  for (const img of layout) {
-    if (
-      img.x < viewWidth &&
-      img.x + img.width > 0 &&
-      img.y < viewHeight &&
-      img.y + img.height > 0
-    ) {
-      visible.push(img);
+function generateTiles(
+  visible: VisibleImage[],
+  imagesById: Map<string, ImageMeta>,
+  provider: ImageUrlProvider,
+  priorityCount: number
+): string {
+  const imageContainerBase = `
+    position: absolute;
+    overflow: hidden;
+    border-radius: 8px;
+    background: linear-gradient(135deg, #f4f6fb, #d8deec, #f4f6fb);
+    background-size: 260% 260%;
+  `.replace(/\s+/g, ' ').trim();
+
+  // Mirrors .imageContainerPolaroid in Canvas.module.css
+  const polaroidStyle = `
+    padding: 6% 6% 18%;
+    border-radius: 2px;
+    background: white;
+    box-shadow: 0 6px 18px rgba(0, 0, 0, 0.25);
+  `.replace(/\s+/g, ' ').trim();
+
+  return visible.map(({ image: img, renderX, renderY }, index) => {
+    const isPolaroid = img.rotation !== undefined;
+    let containerStyle = `${imageContainerBase} left: ${renderX}px; top: ${renderY}px; width: ${img.width}px; height: ${img.height}px;`;
+    if (isPolaroid) {
+      containerStyle += ` ${polaroidStyle} z-index: ${img.zIndex ?? 0}; transform: rotate(${img.rotation}deg);`;
     }
-    // Stop after we've passed the viewport
-    if (img.y > viewHeight) break;
-  }
+    // Add fetchpriority="high" to the preloaded images to optimize LCP
+    const priority = index < priorityCount ? ' fetchpriority="high"' : '';
+
+    // Mirrors .placeholder in Canvas.module.css: the manifest preview shows until the thumbnail fades in
+    const meta = imagesById.get(img.id);
+    if (!meta) return '';
+    let preview = '';
+    let fadeInStyle = '';
+    let fadeInHandler = '';
+    if (meta.placeholder || meta.dominantColor) {
+      const background = [meta.dominantColor, meta.placeholder && `url(${meta.placeholder}) center / cover`].filter(Boolean).join(' ');
+      const margin = isPolaroid ? ' margin: 6% 6% 18%;' : '';
+      preview = `<span style="position: absolute; inset: 0;${margin} background: ${background};"></span>`;
+      fadeInStyle = 'opacity:0;transition:opacity 220ms ease;';
+      fadeInHandler = ' onload="this.style.opacity=1"';
+    }
+
+    // Mirrors <Picture>: AVIF and WebP ladders sized to the tile, JPEG for everything else
+    const sizes = getTileSizes(img);
+    const sources = PICTURE_FORMATS.map((format) => {
+      const srcset = getSrcSet(provider, meta, format);
+      return srcset ? `<source type="${FORMAT_MIME_TYPES[format]}" sizes="${sizes}" srcset="${srcset}">` : '';
+    }).join('');
+    const jpegSrcSet = getSrcSet(provider, meta, 'jpeg');
+    const fallbackSrcSet = jpegSrcSet ? ` sizes="${sizes}" srcset="${jpegSrcSet}"` : '';
 
-  return visible;
+    return `<div style="${containerStyle}">${preview}<picture>${sources}<img${fallbackSrcSet} src="${provider.getOriginalUrl(meta)}" alt="" loading="eager"${priority} style="position:relative;display:block;width:100%;height:100%;object-fit:cover;border-radius:8px;${fadeInStyle}"${fadeInHandler}></picture></div>`;
+  }).join('');
 }
 
-function generatePrerenderedHtml(images: PlacedImage[]): string {
+// Each layout sits in a <template>, so only the one that matches the viewport loads its images
+function generatePrerenderedHtml(templates: { media: string; tiles: string }[]): string {
   const containerStyle = `
     position: fixed;
     top: 0;
@@ -124,47 +166,76 @@ function generatePrerenderedHtml(images: PlacedImage[]): string {
     background-color: gainsboro;
   `.replace(/\s+/g, ' ').trim();
 
-  const imageContainerBase = `
-    position: absolute;
-    overflow: hidden;
-    border-radius: 8px;
-    background: linear-gradient(135deg, #f4f6fb, #d8deec, #f4f6fb);
-    background-size: 260% 260%;
-  `.replace(/\s+/g, ' ').trim();
-
-  const imageElements = images.map((img, index) => {
-    const containerStyle = `${imageContainerBase} left: ${img.x}px; top: ${img.y}px; width: ${img.width}px; height: ${img.height}px;`;
-    // Add fetchpriority="high" to first few images to optimize LCP
-    const priority = index < 4 ? ' fetchpriority="high"' : '';
+  const templateElements = templates
+    .map(({ media, tiles }) => `<template data-media="${media}">${tiles}</template>`)
+    .join('');
 
-    return `<div style="${containerStyle}"><img src="/images/thumbs/${img.id}-250w.webp" srcset="/images/thumbs/${img.id}-250w.webp 1x, /images/thumbs/${img.id}-500w.webp 2x" alt="" loading="eager"${priority} style="width:100%;height:100%;object-fit:cover;border-radius:8px;"></div>`;
-  }).join('');
+  // The prerender shows the default view, hide it for deep links (`?at=`, `?layout=`, `?seed=`, `?q=`, `?tag=` or `#cat-N`,
+  // see src/lib/urlState.ts) so the page doesn't flash the wrong cats before React loads. Otherwise
+  // show the first layout whose media query matches, synchronously so it's in the first paint
+  const selectScript = `<script>(function(){var p=document.getElementById('prerender');if(/[?&](at|layout|seed|q|tag|share-[a-z]+)=/.test(location.search)||location.hash.length>1){p.style.visibility='hidden';return}var t=[].find.call(p.querySelectorAll('template'),function(t){return matchMedia(t.dataset.media).matches});if(t)p.firstChild.appendChild(t.content)})()</script>`;
 
-  return `<div id="prerender" style="${containerStyle}"><div>${imageElements}</div></div>`;
+  return `<div id="prerender" style="${containerStyle}"><div></div>${templateElements}</div>${selectScript}`;
 }
 
-export function generatePrerender(): string {
-  const manifestPath = path.join(__dirname, '..', 'src', 'data', 'images.json');
-
-  if (!fs.existsSync(manifestPath)) {
+// `env` picks the image URL provider, pass Vite's loaded env so the prerender matches the app
+export function generatePrerender(
+  overrides: Partial<LayoutConfig> = {},
+  env: ImageProviderEnv = process.env,
+  preloadCount = DEFAULT_PRELOAD_COUNT
+): PrerenderResult {
+  const result = readManifestChunks();
+  if (!result) {
     console.warn('Manifest not found, skipping prerender');
-    return '';
+    return { html: '', preloads: [], urls: new Set() };
   }
 
-  const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
-  const images: ImageMeta[] = manifest.images;
+  const { manifest, errors, index } = result;
+  if (errors.length > 0) {
+    console.warn(formatManifestErrors('Skipping invalid manifest entries', errors));
+  }
 
-  const layout = computeGlobalLayout(images);
+  // Same layouts as the runtime, so the hand-off to React doesn't shift anything. The
+  // world is sized from the index, like Canvas does while only the first chunk is in
+  const base = { ...DEFAULT_LAYOUT_CONFIG, ...overrides };
+  const collection = getIndexCollectionSize(index, manifest.images);
+  const variants = new Map<string, PrerenderVariant>();
+  for (const viewport of PRERENDER_VIEWPORTS) {
+    const media = getLayoutMediaQuery(base, manifest.images, viewport, collection);
+    // Viewports that end up with the same config share a layout
+    if (variants.has(media)) continue;
+
+    const layout = computeGlobalLayout(manifest.images, getResponsiveLayoutConfig(base, manifest.images, viewport, collection));
+    variants.set(media, { media, visible: getInitialVisibleImages(layout, viewport) });
+  }
 
-  const visible = getInitialVisibleImages(layout, 800, 900).slice(0, IMAGES_TO_PRERENDER);
+  const counts = [...variants.values()].map((variant) => variant.visible.length);
+  console.log(`Pre-rendering ${variants.size} layouts (${counts.join(', ')} initial images)`);
 
-  console.log(`Pre-rendering ${visible.length} initial images`);
+  if (preloadCount > Math.min(...counts)) {
+    console.warn(`Only ${Math.min(...counts)} images are prerendered in some layouts, preloading fewer than ${preloadCount}`);
+  }
+
+  const imagesById = new Map(manifest.images.map((img) => [img.id, img]));
+  const provider = createImageUrlProvider(env);
+  const html = generatePrerenderedHtml(
+    [...variants.values()].map((variant) => ({
+      media: variant.media,
+      tiles: generateTiles(variant.visible, imagesById, provider, preloadCount),
+    }))
+  );
+
+  const urls = new Set<string>();
+  for (const [, attribute] of html.matchAll(/\b(?:src|srcset)="([^"]*)"/g)) {
+    for (const url of getSrcSetUrls(attribute)) urls.add(url);
+  }
 
-  return generatePrerenderedHtml(visible);
+  const preloads = [...variants.values()].flatMap((variant) => getPreloadLinks(variant, imagesById, provider, preloadCount));
+  return { html, preloads, urls };
 }
 
 // CLI mode
 if (process.argv[1] === __filename) {
-  const html = generatePrerender();
+  const { html } = generatePrerender();
   console.log(html);
 }
@@ -0,0 +1,380 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import imageSize from 'image-size';
+import sharp from 'sharp';
+import { parseImageMetadata } from '../src/lib/imageMetadata';
+import type { MetadataParseResult } from '../src/lib/imageMetadata';
+import { computePerceptualHash, findDuplicateClusters, getDuplicatesInputKey, readDuplicatesFile, writeDuplicatesFile } from './duplicates';
+import type { DuplicateCluster } from './duplicates';
+import { DEFAULT_WIDTH_LADDER, FORMAT_EXTENSIONS, getLadderWidths } from '../src/lib/imageProviders';
+import { computeLayout, DEFAULT_LAYOUT_CONFIG } from '../src/lib/layout';
+import { formatManifestErrors, MANIFEST_VERSION, parseManifest } from '../src/lib/manifest';
+import { MANIFEST_DIR, writeManifestChunks } from './manifest-chunks';
+import type { ImageFormat, ImageMeta } from '../src/types';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const IMAGES_DIR = path.join(__dirname, '..', 'public', 'images');
+const THUMBS_DIR = path.join(IMAGES_DIR, 'thumbs');
+// Only speeds up reruns, so it lives with the other tool caches and isn't committed
+const CACHE_FILE = path.join(__dirname, '..', 'node_modules', '.cache', 'image-pipeline.json');
+
+const SOURCE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.webp'];
+
+// Listed in order of preference, the original JPEG stays as the last resort.
+// Override with IMAGE_FORMATS=avif,webp,jpeg
+const DEFAULT_FORMATS: ImageFormat[] = ['avif', 'webp'];
+
+const FORMAT_OPTIONS = {
+  // Effort 2 gives the same file size as the default on these photos in a fraction of the time
+  avif: { quality: 50, effort: 2 },
+  webp: { quality: 80 },
+  jpeg: { quality: 80, mozjpeg: true },
+} satisfies Record<ImageFormat, object>;
+
+// Width ladder, see DEFAULT_WIDTH_LADDER. Override with IMAGE_WIDTHS=250,500,1000
+const WIDTHS = parseList(process.env.IMAGE_WIDTHS, Number) ?? DEFAULT_WIDTH_LADDER;
+const FORMATS = parseList(process.env.IMAGE_FORMATS, parseFormat) ?? DEFAULT_FORMATS;
+
+// Longest side of the inline preview, it gets blurred anyway
+const PREVIEW_SIZE = 8;
+
+// Perceptual hashes that differ in at most this many of 64 bits count as the same
+// photo. Override with DUPLICATE_THRESHOLD=4
+const DUPLICATE_THRESHOLD = Number(process.env.DUPLICATE_THRESHOLD ?? 6);
+// `report` only lists duplicate clusters, `exclude` keeps one copy of each in the
+// manifest, `fail` stops without writing anything. Override with DUPLICATES=exclude
+const DUPLICATES_MODE = parseDuplicatesMode(process.env.DUPLICATES ?? 'report');
+
+// Images per manifest chunk, the app starts rendering once the first one arrives.
+// 0 writes a single chunk. Override with MANIFEST_CHUNK_SIZE=100
+const MANIFEST_CHUNK_SIZE = Number(process.env.MANIFEST_CHUNK_SIZE ?? 200);
+
+// Bump when the cached metadata changes shape or meaning
+const CACHE_VERSION = 4;
+
+interface CacheEntry {
+  mtimeMs: number;
+  size: number;
+  meta: ImageMeta;
+}
+
+interface SourceImage {
+  filePath: string;
+  entry: CacheEntry;
+  perceptualHash: string;
+}
+
+interface BuildCache {
+  version: number;
+  entries: Record<string, CacheEntry>;
+}
+
+function parseList<T>(value: string | undefined, parse: (item: string) => T): T[] | null {
+  if (!value) return null;
+  return value.split(',').map((item) => parse(item.trim()));
+}
+
+function parseFormat(value: string): ImageFormat {
+  if (!(value in FORMAT_OPTIONS)) {
+    throw new Error(`Unknown image format "${value}", expected one of ${Object.keys(FORMAT_OPTIONS).join(', ')}`);
+  }
+  return value as ImageFormat;
+}
+
+function parseDuplicatesMode(value: string): 'report' | 'exclude' | 'fail' {
+  if (value !== 'report' && value !== 'exclude' && value !== 'fail') {
+    throw new Error(`Unknown DUPLICATES mode "${value}", expected report, exclude or fail`);
+  }
+  return value;
+}
+
+function loadCache(): BuildCache {
+  try {
+    const cache: BuildCache = JSON.parse(fs.readFileSync(CACHE_FILE, 'utf-8'));
+    if (cache.version === CACHE_VERSION) return cache;
+  } catch {
+    // Missing or corrupt cache, start from scratch
+  }
+  return { version: CACHE_VERSION, entries: {} };
+}
+
+export function hashContent(...parts: (Buffer | string)[]): string {
+  const hash = crypto.createHash('sha256');
+  for (const part of parts) hash.update(part);
+  return hash.digest('hex');
+}
+
+// Stored in the manifest as `hash`
+export function getSourceHash(buffer: Buffer): string {
+  return hashContent(buffer).slice(0, 16);
+}
+
+// The name changes whenever the source or the encoding does, so the file can be cached forever
+function getDerivativeFileName(id: string, sourceHash: string, format: ImageFormat, width: number): string {
+  const hash = hashContent(sourceHash, `${width}w`, JSON.stringify(FORMAT_OPTIONS[format])).slice(0, 8);
+  return `${id}-${width}w.${hash}.${FORMAT_EXTENSIONS[format]}`;
+}
+
+// Tiny blurred preview and dominant colour shown until the thumbnail loads
+async function computePlaceholder(buffer: Buffer): Promise<{ placeholder: string; dominantColor: string }> {
+  const image = sharp(buffer).rotate();
+  const [preview, stats] = await Promise.all([
+    image.clone().resize(PREVIEW_SIZE, PREVIEW_SIZE, { fit: 'inside' }).webp({ quality: 50 }).toBuffer(),
+    image.clone().stats(),
+  ]);
+
+  const { r, g, b } = stats.dominant;
+  const hex = (channel: number) => channel.toString(16).padStart(2, '0');
+
+  return {
+    placeholder: `data:image/webp;base64,${preview.toString('base64')}`,
+    dominantColor: `#${hex(r)}${hex(g)}${hex(b)}`,
+  };
+}
+
+// Derived on every run rather than cached, so changing the settings renames the files
+function getDerivativeFileNames(meta: ImageMeta, sourceHash: string): ImageMeta['derivatives'] {
+  const widths = getLadderWidths(meta, WIDTHS);
+
+  const derivatives: ImageMeta['derivatives'] = {};
+  for (const format of FORMATS) {
+    const files: Record<string, string> = {};
+    for (const width of widths) {
+      files[width] = getDerivativeFileName(meta.id, sourceHash, format, width);
+    }
+    derivatives[format] = files;
+  }
+  return derivatives;
+}
+
+async function readImageMeta(id: string, buffer: Buffer, sourceHash: string): Promise<ImageMeta | null> {
+  const dimensions = imageSize(buffer);
+  if (!dimensions.width || !dimensions.height) return null;
+
+  return {
+    id,
+    width: dimensions.width,
+    height: dimensions.height,
+    aspectRatio: dimensions.width / dimensions.height,
+    ...(await computePlaceholder(buffer)),
+    hash: sourceHash,
+  };
+}
+
+// `<id>.json` next to the source. Tiny and hand-edited, so it's read on every run rather than cached
+function readSidecar(id: string): MetadataParseResult {
+  const sidecarPath = path.join(IMAGES_DIR, `${id}.json`);
+  if (!fs.existsSync(sidecarPath)) return { metadata: {}, errors: [] };
+
+  try {
+    return parseImageMetadata(JSON.parse(fs.readFileSync(sidecarPath, 'utf-8')));
+  } catch (error) {
+    return { metadata: {}, errors: [`invalid JSON: ${(error as Error).message}`] };
+  }
+}
+
+function reportDuplicates(clusters: DuplicateCluster[]): void {
+  if (clusters.length === 0) return;
+
+  console.warn(`\nFound ${clusters.length} duplicate clusters (threshold ${DUPLICATE_THRESHOLD} bits):`);
+  for (const { kind, keep, duplicates, distance } of clusters) {
+    const detail = kind === 'exact' ? 'identical files' : `distance ${distance}`;
+    console.warn(`  ${keep} <- ${duplicates.join(', ')} (${detail})`);
+  }
+  console.warn('');
+}
+
+export async function processImages(): Promise<void> {
+  console.log('Scanning images directory:', IMAGES_DIR);
+
+  fs.mkdirSync(THUMBS_DIR, { recursive: true });
+
+  const files = fs.readdirSync(IMAGES_DIR).filter((file) => {
+    const ext = path.extname(file).toLowerCase();
+    return SOURCE_EXTENSIONS.includes(ext) && fs.statSync(path.join(IMAGES_DIR, file)).isFile();
+  });
+
+  console.log(`Found ${files.length} images`);
+
+  const cache = loadCache();
+  const nextCache: BuildCache = { version: CACHE_VERSION, entries: {} };
+  const storedDuplicates = readDuplicatesFile();
+  const perceptualHashes: Record<string, string> = {};
+  const existingFiles = new Set(fs.readdirSync(THUMBS_DIR));
+  const expectedFiles = new Set<string>();
+
+  const sources: SourceImage[] = [];
+  let changedCount = 0;
+  let failCount = 0;
+
+  for (const file of files) {
+    const filePath = path.join(IMAGES_DIR, file);
+    const id = path.basename(file, path.extname(file));
+
+    try {
+      const stat = fs.statSync(filePath);
+      const cached = cache.entries[file];
+      let entry: CacheEntry | null = null;
+      let buffer: Buffer | null = null;
+
+      // Same size and mtime: trust the cache and don't even read the file
+      if (cached && cached.mtimeMs === stat.mtimeMs && cached.size === stat.size) {
+        entry = cached;
+      } else {
+        buffer = fs.readFileSync(filePath);
+        const sourceHash = getSourceHash(buffer);
+
+        // Touched but not changed, e.g. after a fresh checkout
+        if (cached && cached.meta.hash === sourceHash) {
+          entry = { ...cached, mtimeMs: stat.mtimeMs, size: stat.size };
+        } else {
+          const meta = await readImageMeta(id, buffer, sourceHash);
+          if (meta) entry = { mtimeMs: stat.mtimeMs, size: stat.size, meta };
+          changedCount++;
+        }
+      }
+
+      if (!entry?.meta.hash) {
+        throw new Error('Unknown dimensions');
+      }
+
+      const { hash } = entry.meta;
+      perceptualHashes[hash] ??=
+        storedDuplicates?.perceptualHashes[hash] ?? (await computePerceptualHash(buffer ?? fs.readFileSync(filePath)));
+
+      sources.push({ filePath, entry, perceptualHash: perceptualHashes[hash] });
+      nextCache.entries[file] = entry;
+    } catch (error) {
+      failCount++;
+      if (failCount <= 3) {
+        console.warn(`Failed to process ${file}:`, error);
+      }
+    }
+  }
+
+  if (failCount > 3) {
+    console.warn(`... and ${failCount - 3} more failures`);
+  }
+
+  if (failCount > 0) {
+    // A file that is being written or briefly unreadable would otherwise lose its
+    // derivatives as orphans and drop out of the manifest. Keep what was read
+    fs.mkdirSync(path.dirname(CACHE_FILE), { recursive: true });
+    fs.writeFileSync(CACHE_FILE, JSON.stringify(nextCache));
+    throw new Error(`Failed to read ${failCount} sources, fix or remove them; ${MANIFEST_DIR} and the derivatives were left as they were`);
+  }
+
+  const candidates = sources.map(({ entry, perceptualHash }) => ({ ...entry.meta, hash: entry.meta.hash!, perceptualHash }));
+  const inputKey = getDuplicatesInputKey(candidates, DUPLICATE_THRESHOLD);
+  // Pairwise comparison is the slow part once the hashes are known, skip it when nothing changed
+  const clusters =
+    storedDuplicates?.inputKey === inputKey ? storedDuplicates.clusters : findDuplicateClusters(candidates, DUPLICATE_THRESHOLD);
+  writeDuplicatesFile({ threshold: DUPLICATE_THRESHOLD, inputKey, perceptualHashes, clusters });
+  reportDuplicates(clusters);
+
+  if (clusters.length > 0 && DUPLICATES_MODE === 'fail') {
+    // Only the hashes are written, the previous manifest and derivatives stay as they were
+    fs.mkdirSync(path.dirname(CACHE_FILE), { recursive: true });
+    fs.writeFileSync(CACHE_FILE, JSON.stringify(nextCache));
+    throw new Error(`Found ${clusters.length} duplicate clusters, remove the extra copies or rerun with DUPLICATES=exclude`);
+  }
+
+  const excluded = new Set(DUPLICATES_MODE === 'exclude' ? clusters.flatMap((cluster) => cluster.duplicates) : []);
+
+  const images: ImageMeta[] = [];
+  let generatedCount = 0;
+  let metadataCount = 0;
+  let metadataErrorCount = 0;
+
+  for (const { filePath, entry } of sources) {
+    const { id, hash } = entry.meta;
+    // Excluded copies get no derivatives, their old ones are removed as orphans below
+    if (excluded.has(id)) continue;
+
+    const meta: ImageMeta = { ...entry.meta, derivatives: getDerivativeFileNames(entry.meta, hash!) };
+    let buffer: Buffer | null = null;
+
+    for (const format of FORMATS) {
+      for (const [width, fileName] of Object.entries(meta.derivatives?.[format] ?? {})) {
+        if (!fileName) continue;
+        expectedFiles.add(fileName);
+        if (existingFiles.has(fileName)) continue;
+
+        buffer ??= fs.readFileSync(filePath);
+        await sharp(buffer)
+          .resize(Number(width), null, {
+            withoutEnlargement: true,
+            fit: 'inside',
+          })
+          .toFormat(format, FORMAT_OPTIONS[format])
+          .toFile(path.join(THUMBS_DIR, fileName));
+
+        generatedCount++;
+
+        // Progress indicator
+        if (generatedCount % 20 === 0) {
+          console.log(`  Generated ${generatedCount} derivatives...`);
+        }
+      }
+    }
+
+    // Kept out of the cache entry, which only holds what's derived from the source file
+    const { metadata, errors } = readSidecar(id);
+    for (const error of errors) {
+      console.warn(`  ${id}.json: ${error}`);
+    }
+    metadataErrorCount += errors.length;
+    if (Object.keys(metadata).length > 0) metadataCount++;
+
+    images.push({ ...meta, ...metadata });
+  }
+
+  // Derivatives of removed or replaced sources, and ones made with old settings
+  let removedCount = 0;
+  for (const fileName of existingFiles) {
+    if (!expectedFiles.has(fileName)) {
+      fs.rmSync(path.join(THUMBS_DIR, fileName));
+      removedCount++;
+    }
+  }
+
+  images.sort((a, b) => {
+    const numA = parseInt(a.id.replace(/\D/g, ''), 10) || 0;
+    const numB = parseInt(b.id.replace(/\D/g, ''), 10) || 0;
+    return numA - numB;
+  });
+
+  // Catches pipeline bugs before they reach the app, which would only drop the bad entries
+  const { manifest, errors: manifestErrors } = parseManifest({ images, version: MANIFEST_VERSION });
+  if (manifestErrors.length > 0) {
+    throw new Error(formatManifestErrors(`Generated manifest is invalid, ${MANIFEST_DIR} was left as it was`, manifestErrors));
+  }
+
+  const index = writeManifestChunks(manifest, MANIFEST_CHUNK_SIZE);
+
+  fs.mkdirSync(path.dirname(CACHE_FILE), { recursive: true });
+  fs.writeFileSync(CACHE_FILE, JSON.stringify(nextCache));
+
+  console.log(`\nProcessing complete:`);
+  console.log(`  - Manifest: ${images.length} images (${changedCount} new or changed, ${excluded.size} duplicates excluded)`);
+  console.log(`  - Metadata: ${metadataCount} sidecars merged, ${metadataErrorCount} problems`);
+  console.log(`  - Derivatives (${FORMATS.join(', ')} at ${WIDTHS.join(', ')}w): ${generatedCount} generated, ${removedCount} orphans removed`);
+  console.log(`  - Output: ${MANIFEST_DIR} (${index.chunks.length} chunks)`);
+
+  // Sanity check that the manifest produces a usable layout
+  const layout = computeLayout(images, DEFAULT_LAYOUT_CONFIG);
+  const worldSize = DEFAULT_LAYOUT_CONFIG.worldSize;
+  console.log(`Layout: ${layout.length} tiles in a ${worldSize}x${worldSize} world`);
+}
+
+// CLI mode
+if (process.argv[1] === __filename) {
+  processImages().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  });
+}
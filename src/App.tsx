@@ -1,14 +1,159 @@
+import { useCallback, useEffect, useLayoutEffect, useMemo, useState } from 'react';
 import { Canvas } from './components/Canvas/Canvas';
+import { FavoritesTransfer } from './components/FavoritesTransfer/FavoritesTransfer';
+import { FilterBar } from './components/FilterBar/FilterBar';
 import { InfoButton } from './components/InfoButton/InfoButton';
-import imageManifest from './data/images.json';
-import type { ImageManifest } from './types';
+import { loadFavorites, mergeFavorites, saveFavorites, subscribeFavorites, toggleFavorite } from './lib/favorites';
+import { filterImages, getFilterKey, isFilterActive } from './lib/imageFilter';
+import type { ImageFilter } from './lib/imageFilter';
+import { DEFAULT_LAYOUT_CONFIG, isLayoutEngineName } from './lib/layout';
+import type { LayoutConfig } from './lib/layout';
+import { loadManifest } from './lib/manifestLoader';
+import type { ManifestProgress } from './lib/manifestLoader';
+import { findSharedImage } from './lib/shareTarget';
+import { DEFAULT_TILE_RENDERER, isTileRendererName, resolveTileRenderer } from './lib/tileRenderer';
+import { buildUrl, readLayoutOverrides, readRendererOverride, readShareTarget, readSharedFavorites, readUrlState } from './lib/urlState';
+import type { ImageMeta } from './types';
 
-const manifest = imageManifest as ImageManifest;
+// `?layout=` wins over the VITE_LAYOUT_ENGINE build setting
+const buildEngine = import.meta.env.VITE_LAYOUT_ENGINE;
+const layoutOverrides = readLayoutOverrides();
+const layoutConfig: LayoutConfig = {
+  ...DEFAULT_LAYOUT_CONFIG,
+  ...(isLayoutEngineName(buildEngine) ? { engine: buildEngine } : {}),
+  ...layoutOverrides,
+};
+
+// Same for `?renderer=` and VITE_RENDERER
+const buildRenderer = import.meta.env.VITE_RENDERER;
+const tileRenderer = resolveTileRenderer(
+  readRendererOverride() ?? (isTileRendererName(buildRenderer) ? buildRenderer : DEFAULT_TILE_RENDERER)
+);
+
+// Shared positions, linked or shared cats, filters and favourites refer to the
+// full layout, so deep links wait for every chunk instead of starting with the first one.
+// So do `?seed=` and `?layout=`: a shuffle or another engine would re-arrange
+// every tile once the rest of the chunks arrive
+const initialUrlState = readUrlState();
+const waitForAllChunks =
+  Object.keys(layoutOverrides).length > 0 ||
+  initialUrlState.at !== null ||
+  initialUrlState.imageId !== null ||
+  isFilterActive(initialUrlState.filter) ||
+  readSharedFavorites().length > 0 ||
+  readShareTarget().length > 0;
+
+// Something shared to the installed app becomes a link to that cat before the
+// canvas mounts, so it opens in the lightbox like any `#cat-42` link
+function openSharedImage(images: ImageMeta[]): void {
+  const shared = readShareTarget();
+  if (shared.length === 0) return;
+  const image = findSharedImage(images, shared);
+  history.replaceState(history.state, '', buildUrl({ imageId: image?.id ?? null }));
+}
+
+// A shared link offers its favourites once, the list is dropped from the address
+// either way. Returns the ids to add, none if the visitor declined
+function takeSharedFavorites(): string[] {
+  const shared = readSharedFavorites();
+  if (shared.length === 0) return [];
+  history.replaceState(history.state, '', buildUrl({}));
+
+  const current = new Set(loadFavorites());
+  const added = shared.filter((id) => !current.has(id)).length;
+  if (added > 0 && !window.confirm(`Добавить в избранное котов по ссылке: ${added}?`)) return [];
+  return shared;
+}
 
 function App() {
+  const [manifest, setManifest] = useState<ManifestProgress | null>(null);
+  const [filter, setFilter] = useState(initialUrlState.filter);
+  const [favorites, setFavorites] = useState(loadFavorites);
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
+
+  const favoriteSet = useMemo(() => new Set(favorites), [favorites]);
+  const favoriteImages = useMemo(
+    () => (manifest ? manifest.images.filter((image) => favoriteSet.has(image.id)) : []),
+    [manifest, favoriteSet]
+  );
+  const filteredImages = useMemo(
+    () => (manifest ? filterImages(favoritesOnly ? favoriteImages : manifest.images, filter) : []),
+    [manifest, favoritesOnly, favoriteImages, filter]
+  );
+  // A filter that matches nothing leaves the canvas as it was, FilterBar says so
+  const canvasImages = filteredImages.length > 0 ? filteredImages : (manifest?.images ?? []);
+  const filtered = canvasImages !== manifest?.images;
+  // Unfavouriting a cat while only favourites are shown animates it away too
+  const transitionKey = filtered
+    ? `${getFilterKey(filter)}|${favoritesOnly ? favoriteImages.map((image) => image.id).join(',') : ''}`
+    : '';
+
+  const handleFilterChange = useCallback((next: ImageFilter) => {
+    setFilter(next);
+    history.replaceState(history.state, '', buildUrl({ filter: next }));
+  }, []);
+
+  const handleToggleFavorite = useCallback((imageId: string) => {
+    setFavorites((current) => toggleFavorite(current, imageId));
+  }, []);
+
+  const handleImportFavorites = useCallback((ids: string[]) => {
+    setFavorites((current) => mergeFavorites(current, ids));
+  }, []);
+
+  useEffect(() => saveFavorites(favorites), [favorites]);
+  useEffect(() => subscribeFavorites(setFavorites), []);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    loadManifest((progress) => {
+      if (progress.complete) openSharedImage(progress.images);
+      if (progress.complete || !waitForAllChunks) setManifest(progress);
+      if (!progress.complete) return;
+      const shared = takeSharedFavorites();
+      if (shared.length > 0) {
+        setFavorites((current) => mergeFavorites(current, shared));
+        setFavoritesOnly(true);
+      }
+    }, controller.signal).catch((error) => {
+      // The prerendered cats stay on screen, there's just nothing to pan
+      if (!controller.signal.aborted) console.error(error);
+    });
+    return () => controller.abort();
+  }, []);
+
+  // Swap the prerender for the canvas in the same frame
+  useLayoutEffect(() => {
+    if (manifest) document.getElementById('prerender')?.remove();
+  }, [manifest]);
+
   return (
     <>
-      <Canvas images={manifest.images} />
+      {manifest && (
+        <Canvas
+          images={canvasImages}
+          // A subset gets its own, smaller world
+          collection={filtered ? undefined : manifest.collection}
+          layoutConfig={layoutConfig}
+          transitionKey={transitionKey}
+          favorites={favoriteSet}
+          onToggleFavorite={handleToggleFavorite}
+          renderer={tileRenderer}
+        />
+      )}
+      {manifest && (
+        <FilterBar
+          images={manifest.images}
+          filter={filter}
+          matchCount={filteredImages.length}
+          onChange={handleFilterChange}
+          favoriteCount={favoriteImages.length}
+          favoritesOnly={favoritesOnly}
+          onFavoritesOnlyChange={setFavoritesOnly}
+        >
+          <FavoritesTransfer favorites={favorites} onImport={handleImportFavorites} />
+        </FilterBar>
+      )}
       <InfoButton />
     </>
   );
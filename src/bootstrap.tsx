@@ -3,9 +3,9 @@ import { createRoot } from 'react-dom/client'
 import App from './App'
 
 export function bootstrap() {
-  // Remove loading state when React takes over (keep loading-bar for later use)
+  // Remove loading state when React takes over (keep loading-bar for later use).
+  // The prerender stays until App has the first manifest chunk
   document.documentElement.classList.remove('loading')
-  document.getElementById('prerender')?.remove()
 
   createRoot(document.getElementById('root')!).render(
     <StrictMode>
@@ -1,23 +1,161 @@
-import { useState, useCallback, useRef, useMemo, lazy, Suspense, useEffect } from 'react';
-import type { PointerEvent, CSSProperties } from 'react';
-import { getVisibleImages } from '../../lib/globalLayout';
-import { getThumbUrl, getThumbSrcSet } from '../../lib/imageUrl';
+import { useState, useCallback, useRef, useMemo, lazy, Suspense, useEffect, useLayoutEffect } from 'react';
+import type { PointerEvent, CSSProperties, FocusEvent } from 'react';
+import { getVisibleImages, findNearestPlacement, createLayoutCache, getTileAnchor, mapPointBetweenLayouts, resolveTileAnchor } from '../../lib/globalLayout';
+import type { GlobalLayout, VisibleImage } from '../../lib/globalLayout';
+import { DEFAULT_LAYOUT_CONFIG, getResponsiveLayoutConfig } from '../../lib/layout';
+import type { CollectionSize, LayoutConfig, ViewportInfo } from '../../lib/layout';
+import { getTileSizes } from '../../lib/imageUrl';
+import { readUrlState, buildUrl } from '../../lib/urlState';
+import { clampZoom, zoomAround, getResolutionTier, MIN_ZOOM, MAX_ZOOM } from '../../lib/zoom';
+import type { TileRendererName } from '../../lib/tileRenderer';
+import { HeartIcon } from '../HeartIcon/HeartIcon';
+import { Picture } from '../Picture/Picture';
+import { ZoomControls } from '../ZoomControls/ZoomControls';
+import { TileCanvas } from './TileCanvas';
+import type { TileCanvasHandle } from './TileCanvas';
 import type { ImageMeta } from '../../types';
 import styles from './Canvas.module.css';
 
+const ZOOM_STEP = 1.5;
+const ZOOM_ANIMATION_MS = 200;
+const PAN_ANIMATION_MS = 400;
+const RELAYOUT_ANIMATION_MS = 450;
+// Wait for the view to settle before writing it to the URL
+const URL_SYNC_DELAY_MS = 250;
+// TileCanvas draws from the refs, so with it React only hears of a view that stopped moving
+const CANVAS_SYNC_DELAY_MS = 100;
+
+const INERTIA_DECAY = 0.95; // Friction factor
+const FRAME_TIME = 0.016; // ~60fps frame time
+// Screen pixels travelled per arrow key press
+const ARROW_PAN_STEP = 150;
+// Share of the viewport travelled per PageUp/PageDown
+const PAGE_PAN_RATIO = 0.8;
+// How far around a tile to look for its keyboard neighbours (world px)
+const NEIGHBOUR_SEARCH_RANGE = 1200;
+// Space kept between a keyboard-focused tile and the viewport edge
+const FOCUS_MARGIN = 40;
+
+const ARROW_DIRECTIONS: Record<string, { x: number; y: number }> = {
+  ArrowLeft: { x: -1, y: 0 },
+  ArrowRight: { x: 1, y: 0 },
+  ArrowUp: { x: 0, y: -1 },
+  ArrowDown: { x: 0, y: 1 },
+};
+
+// Initial inertia velocity that glides the given distance before stopping
+function velocityForDistance(distance: number): number {
+  return (distance * (1 - INERTIA_DECAY)) / FRAME_TIME;
+}
+
+function getTileKey({ image, renderX, renderY }: VisibleImage): string {
+  return `${image.id}-${renderX}-${renderY}`;
+}
+
+// Closest tile in the given direction, penalising sideways offset so focus
+// moves along rows and columns rather than diagonally
+function findNeighbour(from: VisibleImage, candidates: VisibleImage[], direction: { x: number; y: number }): VisibleImage | null {
+  const fromX = from.renderX + from.image.width / 2;
+  const fromY = from.renderY + from.image.height / 2;
+
+  let best: VisibleImage | null = null;
+  let bestScore = Infinity;
+
+  for (const candidate of candidates) {
+    const dx = candidate.renderX + candidate.image.width / 2 - fromX;
+    const dy = candidate.renderY + candidate.image.height / 2 - fromY;
+    const along = dx * direction.x + dy * direction.y;
+    if (along <= 0) continue;
+
+    const across = Math.abs(dx * direction.y - dy * direction.x);
+    const score = along + across * 2;
+    if (score < bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
 const Lightbox = lazy(() => import('../Lightbox/Lightbox').then(m => ({ default: m.Lightbox })));
 
+function readViewport(): ViewportInfo {
+  return {
+    width: window.innerWidth,
+    height: window.innerHeight,
+    devicePixelRatio: window.devicePixelRatio || 1,
+  };
+}
+
+// Restore the view from a shared link, centring on the linked image if there is no position
+function getInitialView(layout: GlobalLayout): { x: number; y: number; scale: number } {
+  const { at, imageId } = readUrlState();
+  const centerX = window.innerWidth / 2;
+  const centerY = window.innerHeight / 2;
+
+  if (at) {
+    const scale = clampZoom(at.zoom);
+    // The copy of the tile nearest the world origin, the world wraps anyway
+    const point = 'anchor' in at ? resolveTileAnchor(layout, at.anchor, centerX, centerY) : at;
+    if (point) return { x: centerX - point.x * scale, y: centerY - point.y * scale, scale };
+  }
+
+  const placement = imageId ? findNearestPlacement(layout, imageId, centerX, centerY) : null;
+  if (placement) {
+    return {
+      x: centerX - (placement.renderX + placement.image.width / 2),
+      y: centerY - (placement.renderY + placement.image.height / 2),
+      scale: 1,
+    };
+  }
+
+  return { x: 0, y: 0, scale: 1 };
+}
+
+function findImage(images: ImageMeta[], imageId: string | null): ImageMeta | null {
+  return images.find((img) => img.id === imageId) ?? null;
+}
+
 interface CanvasProps {
   images: ImageMeta[];
+  // The whole collection while manifest chunks are still arriving, from the manifest index
+  collection?: CollectionSize;
+  layoutConfig?: LayoutConfig;
+  // Pan to the image the lightbox was left on when it closes
+  followLightbox?: boolean;
+  // Changing it animates tiles from the old layout to the new one, e.g. when a filter is applied
+  transitionKey?: string;
+  // Ids of favourite images; hearts are only shown when onToggleFavorite is set
+  favorites?: ReadonlySet<string>;
+  onToggleFavorite?: (imageId: string) => void;
+  // DOM nodes per tile, or one <canvas> for large collections. Keyboard focus
+  // and the relayout animation need the DOM tiles
+  renderer?: TileRendererName;
 }
 
-export function Canvas({ images }: CanvasProps) {
-  const [panPosition, setPanPosition] = useState({ x: 0, y: 0 });
-  const [lightboxImage, setLightboxImage] = useState<ImageMeta | null>(null);
+export function Canvas({ images, collection, layoutConfig = DEFAULT_LAYOUT_CONFIG, followLightbox = true, transitionKey = '', favorites, onToggleFavorite, renderer = 'dom' }: CanvasProps) {
+  const [viewport, setViewport] = useState(readViewport);
+  // Layouts belong to this canvas, other instances keep their own. The cache
+  // is keyed by content, so resizes within a breakpoint return the same layout
+  const [getLayout] = useState(() => createLayoutCache());
+  const layout = useMemo(
+    () => getLayout(images, getResponsiveLayoutConfig(layoutConfig, images, viewport, collection)),
+    [getLayout, images, collection, layoutConfig, viewport]
+  );
+  const [initialView] = useState(() => getInitialView(layout));
+  const [panPosition, setPanPosition] = useState({ x: initialView.x, y: initialView.y });
+  const [zoom, setZoom] = useState(initialView.scale);
+  const [lightboxImage, setLightboxImage] = useState(() => findImage(images, readUrlState().imageId));
   const [isGrabbing, setIsGrabbing] = useState(false);
+  // Tile that owns the roving tabindex
+  const [activeTileKey, setActiveTileKey] = useState<string | null>(null);
 
-  const panRef = useRef({ x: 0, y: 0 });
+  const panRef = useRef({ x: initialView.x, y: initialView.y });
+  const scaleRef = useRef(initialView.scale);
+  const canvasRef = useRef<HTMLDivElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const tileCanvasRef = useRef<TileCanvasHandle>(null);
   const isDragging = useRef(false);
   const hasDragged = useRef(false);
   const lastPos = useRef({ x: 0, y: 0 });
@@ -25,54 +163,138 @@ export function Canvas({ images }: CanvasProps) {
   const velocity = useRef({ x: 0, y: 0 });
   const lastTime = useRef(0);
   const animationFrameRef = useRef<number | null>(null);
+  // Current inertia velocity, null when no inertia is running
+  const inertiaVelocity = useRef<{ x: number; y: number } | null>(null);
+  // Space+drag pans without opening the image under the pointer
+  const spaceHeld = useRef(false);
+  // Tile to focus once it has been rendered
+  const pendingFocusKey = useRef<string | null>(null);
+  // Image the lightbox was opened from, to detect navigation on close
+  const lightboxOriginId = useRef(lightboxImage?.id ?? null);
+  // Active pointers by id, needed to detect two-finger pinch
+  const pointers = useRef(new Map<number, { x: number; y: number }>());
+  // Pinch start state: finger distance, scale and the world point under the fingers
+  const pinchRef = useRef<{ distance: number; scale: number; anchorX: number; anchorY: number } | null>(null);
+  // Tiles of the last render and the transition key they were laid out for
+  const lastTiles = useRef<VisibleImage[]>([]);
+  const lastTransitionKey = useRef(transitionKey);
+  // Where the tiles were on screen when transitionKey changed, until the new layout has rendered
+  const pendingTransition = useRef<{ tiles: VisibleImage[]; pan: { x: number; y: number }; scale: number } | null>(null);
 
   // Update DOM transform directly for smooth performance
-  const updateTransform = useCallback((x: number, y: number) => {
+  const updateTransform = useCallback((x: number, y: number, scale = scaleRef.current) => {
     panRef.current = { x, y };
+    scaleRef.current = scale;
     if (containerRef.current) {
-      containerRef.current.style.transform = `translate3d(${x}px, ${y}px, 0)`;
+      containerRef.current.style.transform = `translate3d(${x}px, ${y}px, 0) scale(${scale})`;
     }
+    tileCanvasRef.current?.invalidate();
   }, []);
 
   // Sync state for React (throttled to avoid excessive re-renders)
   const syncStateRef = useRef<number | null>(null);
+  const syncTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const syncState = useCallback(() => {
+    const commit = () => {
+      setPanPosition({ ...panRef.current });
+      setZoom(scaleRef.current);
+    };
+
+    if (renderer === 'canvas') {
+      // Debounced rather than once per frame: the zoom controls and the URL can wait
+      if (syncTimeoutRef.current) clearTimeout(syncTimeoutRef.current);
+      syncTimeoutRef.current = setTimeout(() => {
+        syncTimeoutRef.current = null;
+        commit();
+      }, CANVAS_SYNC_DELAY_MS);
+      return;
+    }
+
     if (syncStateRef.current) return;
     syncStateRef.current = requestAnimationFrame(() => {
-      setPanPosition({ ...panRef.current });
+      commit();
       syncStateRef.current = null;
     });
-  }, []);
+  }, [renderer]);
 
   const visibleImages = useMemo(() => {
-    const viewX = -panPosition.x;
-    const viewY = -panPosition.y;
-    const viewWidth = typeof window !== 'undefined' ? window.innerWidth : 1920;
-    const viewHeight = typeof window !== 'undefined' ? window.innerHeight : 1080;
-    return getVisibleImages(viewX, viewY, viewWidth, viewHeight, images);
-  }, [panPosition.x, panPosition.y, images]);
-
-  // Custom inertia animation with decay
-  const startInertia = useCallback((velX: number, velY: number) => {
-    const decay = 0.95; // Friction factor
+    // Convert the screen viewport into world coordinates
+    const viewX = -panPosition.x / zoom;
+    const viewY = -panPosition.y / zoom;
+    const viewWidth = viewport.width / zoom;
+    const viewHeight = viewport.height / zoom;
+    return getVisibleImages(layout, viewX, viewY, viewWidth, viewHeight);
+  }, [panPosition.x, panPosition.y, zoom, layout, viewport]);
+
+  const resolutionTier = getResolutionTier(zoom);
+
+  const imagesById = useMemo(() => new Map(images.map((img) => [img.id, img])), [images]);
+
+  // The active tile keeps tab focus while rendered, otherwise the tile closest
+  // to the viewport centre takes over so Tab always lands on something visible
+  const focusableTileKey = useMemo(() => {
+    if (visibleImages.length === 0) return null;
+    if (activeTileKey && visibleImages.some((tile) => getTileKey(tile) === activeTileKey)) {
+      return activeTileKey;
+    }
+
+    const centerX = (viewport.width / 2 - panPosition.x) / zoom;
+    const centerY = (viewport.height / 2 - panPosition.y) / zoom;
+    let nearest = visibleImages[0];
+    let nearestDistance = Infinity;
+    for (const tile of visibleImages) {
+      const distance = Math.hypot(
+        tile.renderX + tile.image.width / 2 - centerX,
+        tile.renderY + tile.image.height / 2 - centerY
+      );
+      if (distance < nearestDistance) {
+        nearest = tile;
+        nearestDistance = distance;
+      }
+    }
+    return getTileKey(nearest);
+  }, [visibleImages, activeTileKey, panPosition.x, panPosition.y, zoom, viewport]);
+
+  const stopInertia = useCallback(() => {
+    inertiaVelocity.current = null;
+    if (animationFrameRef.current) {
+      cancelAnimationFrame(animationFrameRef.current);
+      animationFrameRef.current = null;
+    }
+  }, []);
+
+  // Custom inertia animation with decay. With `accumulate` the velocity is
+  // added to an inertia that is already running, so a stream of wheel events
+  // keeps gliding instead of restarting on every event
+  const startInertia = useCallback((velX: number, velY: number, accumulate = false) => {
     const minVelocity = 0.5;
 
-    let vx = velX;
-    let vy = velY;
+    if (accumulate && inertiaVelocity.current) {
+      inertiaVelocity.current.x += velX;
+      inertiaVelocity.current.y += velY;
+      return;
+    }
+
+    stopInertia();
+    inertiaVelocity.current = { x: velX, y: velY };
 
     const tick = () => {
-      vx *= decay;
-      vy *= decay;
+      const v = inertiaVelocity.current;
+      if (!v) return;
+
+      v.x *= INERTIA_DECAY;
+      v.y *= INERTIA_DECAY;
 
       // Stop when velocity is negligible
-      if (Math.abs(vx) < minVelocity && Math.abs(vy) < minVelocity) {
+      if (Math.abs(v.x) < minVelocity && Math.abs(v.y) < minVelocity) {
+        inertiaVelocity.current = null;
         animationFrameRef.current = null;
         syncState();
         return;
       }
 
-      const newX = panRef.current.x + vx * 0.016; // ~60fps frame time
-      const newY = panRef.current.y + vy * 0.016;
+      const newX = panRef.current.x + v.x * FRAME_TIME;
+      const newY = panRef.current.y + v.y * FRAME_TIME;
       updateTransform(newX, newY);
       syncState();
 
@@ -80,18 +302,100 @@ export function Canvas({ images }: CanvasProps) {
     };
 
     animationFrameRef.current = requestAnimationFrame(tick);
+  }, [updateTransform, syncState, stopInertia]);
+
+  // Glide the view by a screen distance using the inertia model
+  const nudge = useCallback((dx: number, dy: number, accumulate = false) => {
+    startInertia(velocityForDistance(dx), velocityForDistance(dy), accumulate);
+  }, [startInertia]);
+
+  // Zoom keeping the world point under `anchor` (screen px) in place
+  const zoomTo = useCallback((nextScale: number, anchor: { x: number; y: number }) => {
+    const scale = clampZoom(nextScale);
+    const pan = zoomAround(panRef.current, scaleRef.current, scale, anchor);
+    updateTransform(pan.x, pan.y, scale);
+    syncState();
   }, [updateTransform, syncState]);
 
-  const stopInertia = useCallback(() => {
-    if (animationFrameRef.current) {
-      cancelAnimationFrame(animationFrameRef.current);
-      animationFrameRef.current = null;
-    }
+  const animateZoom = useCallback((targetScale: number) => {
+    stopInertia();
+
+    const anchor = { x: window.innerWidth / 2, y: window.innerHeight / 2 };
+    const from = scaleRef.current;
+    const to = clampZoom(targetScale);
+    const start = performance.now();
+
+    const tick = (now: number) => {
+      const t = Math.min(1, (now - start) / ZOOM_ANIMATION_MS);
+      const eased = 1 - Math.pow(1 - t, 3);
+      // Interpolate geometrically so zooming in and out feel symmetric
+      zoomTo(from * Math.pow(to / from, eased), anchor);
+      animationFrameRef.current = t < 1 ? requestAnimationFrame(tick) : null;
+    };
+
+    animationFrameRef.current = requestAnimationFrame(tick);
+  }, [stopInertia, zoomTo]);
+
+  const animatePan = useCallback((targetX: number, targetY: number) => {
+    stopInertia();
+
+    const fromX = panRef.current.x;
+    const fromY = panRef.current.y;
+    const start = performance.now();
+
+    const tick = (now: number) => {
+      const t = Math.min(1, (now - start) / PAN_ANIMATION_MS);
+      const eased = 1 - Math.pow(1 - t, 3);
+      updateTransform(fromX + (targetX - fromX) * eased, fromY + (targetY - fromY) * eased);
+      syncState();
+      animationFrameRef.current = t < 1 ? requestAnimationFrame(tick) : null;
+    };
+
+    animationFrameRef.current = requestAnimationFrame(tick);
+  }, [stopInertia, updateTransform, syncState]);
+
+  const startPinch = useCallback(() => {
+    const [a, b] = [...pointers.current.values()];
+    const midX = (a.x + b.x) / 2;
+    const midY = (a.y + b.y) / 2;
+
+    isDragging.current = false;
+    hasDragged.current = true;
+    velocity.current = { x: 0, y: 0 };
+    pinchRef.current = {
+      distance: Math.hypot(a.x - b.x, a.y - b.y) || 1,
+      scale: scaleRef.current,
+      anchorX: (midX - panRef.current.x) / scaleRef.current,
+      anchorY: (midY - panRef.current.y) / scaleRef.current,
+    };
   }, []);
 
+  const updatePinch = useCallback(() => {
+    const pinch = pinchRef.current;
+    if (!pinch) return;
+
+    const [a, b] = [...pointers.current.values()];
+    const midX = (a.x + b.x) / 2;
+    const midY = (a.y + b.y) / 2;
+    const scale = clampZoom(pinch.scale * Math.hypot(a.x - b.x, a.y - b.y) / pinch.distance);
+
+    // Keep the pinched world point under the fingers' midpoint, which also pans
+    updateTransform(midX - pinch.anchorX * scale, midY - pinch.anchorY * scale, scale);
+    syncState();
+  }, [updateTransform, syncState]);
+
   const handlePointerDown = useCallback((e: PointerEvent) => {
     stopInertia();
 
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    (e.target as HTMLElement).setPointerCapture(e.pointerId);
+
+    if (pointers.current.size === 2) {
+      startPinch();
+      return;
+    }
+    if (pointers.current.size > 2) return;
+
     isDragging.current = true;
     setIsGrabbing(true);
     hasDragged.current = false;
@@ -100,10 +404,18 @@ export function Canvas({ images }: CanvasProps) {
     lastPos.current = { x: e.clientX, y: e.clientY };
     lastTime.current = now;
     velocity.current = { x: 0, y: 0 };
-    (e.target as HTMLElement).setPointerCapture(e.pointerId);
-  }, [stopInertia]);
+  }, [stopInertia, startPinch]);
 
   const handlePointerMove = useCallback((e: PointerEvent) => {
+    if (pointers.current.has(e.pointerId)) {
+      pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    }
+
+    if (pinchRef.current) {
+      updatePinch();
+      return;
+    }
+
     if (!isDragging.current) return;
 
     const deltaX = e.clientX - lastPos.current.x;
@@ -137,9 +449,30 @@ export function Canvas({ images }: CanvasProps) {
     const newY = panRef.current.y + deltaY * dragSmoothing;
     updateTransform(newX, newY);
     syncState();
-  }, [updateTransform, syncState]);
+  }, [updateTransform, syncState, updatePinch]);
 
   const handlePointerUp = useCallback((e: PointerEvent) => {
+    pointers.current.delete(e.pointerId);
+
+    if (pinchRef.current) {
+      if (pointers.current.size >= 2) return;
+      pinchRef.current = null;
+
+      // Continue as a regular drag with the finger that is still down
+      const remaining = pointers.current.values().next().value;
+      if (remaining) {
+        const now = Date.now();
+        isDragging.current = true;
+        dragStartPos.current = { ...remaining, time: now };
+        lastPos.current = { ...remaining };
+        lastTime.current = now;
+        velocity.current = { x: 0, y: 0 };
+      } else {
+        setIsGrabbing(false);
+      }
+      return;
+    }
+
     if (!isDragging.current) return;
     isDragging.current = false;
     setIsGrabbing(false);
@@ -154,16 +487,361 @@ export function Canvas({ images }: CanvasProps) {
     }
   }, [startInertia]);
 
+  // Pan just enough to bring a tile fully into view
+  const revealTile = useCallback((tile: VisibleImage) => {
+    const scale = scaleRef.current;
+    const left = tile.renderX * scale + panRef.current.x;
+    const top = tile.renderY * scale + panRef.current.y;
+    const right = left + tile.image.width * scale;
+    const bottom = top + tile.image.height * scale;
+
+    let dx = 0;
+    let dy = 0;
+    if (left < FOCUS_MARGIN) dx = FOCUS_MARGIN - left;
+    else if (right > window.innerWidth - FOCUS_MARGIN) dx = window.innerWidth - FOCUS_MARGIN - right;
+    if (top < FOCUS_MARGIN) dy = FOCUS_MARGIN - top;
+    else if (bottom > window.innerHeight - FOCUS_MARGIN) dy = window.innerHeight - FOCUS_MARGIN - bottom;
+
+    if (dx !== 0 || dy !== 0) {
+      animatePan(panRef.current.x + dx, panRef.current.y + dy);
+    }
+  }, [animatePan]);
+
+  const handleTileFocus = useCallback((tile: VisibleImage, e: FocusEvent) => {
+    setActiveTileKey(getTileKey(tile));
+    // Clicking also focuses the tile, only follow keyboard focus
+    if (e.currentTarget.matches(':focus-visible')) revealTile(tile);
+  }, [revealTile]);
+
+  // Move focus to the spatially closest tile in the arrow's direction
+  const moveFocus = useCallback((fromKey: string, direction: { x: number; y: number }) => {
+    const from = visibleImages.find((tile) => getTileKey(tile) === fromKey);
+    if (!from) return;
+
+    // Neighbours may be outside the viewport, so search around the tile itself
+    const candidates = getVisibleImages(
+      layout,
+      from.renderX - NEIGHBOUR_SEARCH_RANGE,
+      from.renderY - NEIGHBOUR_SEARCH_RANGE,
+      from.image.width + NEIGHBOUR_SEARCH_RANGE * 2,
+      from.image.height + NEIGHBOUR_SEARCH_RANGE * 2
+    );
+    const neighbour = findNeighbour(from, candidates, direction);
+    if (!neighbour) return;
+
+    const key = getTileKey(neighbour);
+    pendingFocusKey.current = key;
+    setActiveTileKey(key);
+    revealTile(neighbour);
+  }, [visibleImages, layout, revealTile]);
+
   const handleImageClick = useCallback((imageId: string) => {
-    if (hasDragged.current) return;
+    if (hasDragged.current || spaceHeld.current) return;
     const image = images.find((img) => img.id === imageId);
-    if (image) setLightboxImage(image);
+    if (!image) return;
+    lightboxOriginId.current = image.id;
+    setLightboxImage(image);
+    // Own history entry so the back button closes the lightbox
+    history.pushState({ lightbox: true }, '', buildUrl({ imageId: image.id }));
   }, [images]);
 
+  const handleFavoriteClick = useCallback((imageId: string) => {
+    if (hasDragged.current || spaceHeld.current) return;
+    onToggleFavorite?.(imageId);
+  }, [onToggleFavorite]);
+
+  const navigateLightbox = useCallback((image: ImageMeta) => {
+    setLightboxImage(image);
+    history.replaceState(history.state, '', buildUrl({ imageId: image.id }));
+  }, []);
+
   const closeLightbox = useCallback(() => {
     setLightboxImage(null);
+
+    // Pop the entry we pushed on open, deep-linked pages have none to pop
+    if (history.state?.lightbox) {
+      history.back();
+    } else {
+      history.replaceState(history.state, '', buildUrl({ imageId: null }));
+    }
+
+    if (!followLightbox || !lightboxImage || lightboxImage.id === lightboxOriginId.current) return;
+
+    // Centre the nearest copy of the image the user navigated to
+    const scale = scaleRef.current;
+    const centerX = window.innerWidth / 2;
+    const centerY = window.innerHeight / 2;
+    const placement = findNearestPlacement(
+      layout,
+      lightboxImage.id,
+      (centerX - panRef.current.x) / scale,
+      (centerY - panRef.current.y) / scale
+    );
+    if (!placement) return;
+
+    animatePan(
+      centerX - (placement.renderX + placement.image.width / 2) * scale,
+      centerY - (placement.renderY + placement.image.height / 2) * scale
+    );
+  }, [followLightbox, lightboxImage, layout, animatePan]);
+
+  // Focus a tile requested by arrow navigation as soon as it is rendered, which
+  // is right away when it was already on screen
+  useEffect(() => {
+    const key = pendingFocusKey.current;
+    if (!key) return;
+
+    const tile = containerRef.current?.querySelector<HTMLElement>(`[data-tile-key="${CSS.escape(key)}"]`);
+    if (tile) {
+      pendingFocusKey.current = null;
+      tile.focus({ preventScroll: true });
+    }
+  }, [visibleImages, activeTileKey]);
+
+  // Keyboard panning. Listens on window so it works before anything is focused,
+  // but leaves keys alone for other controls and while the lightbox is open
+  useEffect(() => {
+    const isCanvasTarget = (target: EventTarget | null) =>
+      target === document.body || (target instanceof Node && !!canvasRef.current?.contains(target));
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (lightboxImage || !isCanvasTarget(e.target) || e.altKey || e.ctrlKey || e.metaKey) return;
+
+      // Keyboard interaction shouldn't be swallowed by the last pointer drag
+      hasDragged.current = false;
+
+      if (e.key === ' ') {
+        // Blocks the button activation and page scroll Space would cause
+        e.preventDefault();
+        spaceHeld.current = true;
+        return;
+      }
+
+      const direction = ARROW_DIRECTIONS[e.key];
+      if (direction) {
+        e.preventDefault();
+        const tileKey = (e.target as HTMLElement).dataset?.tileKey;
+        if (tileKey) {
+          moveFocus(tileKey, direction);
+        } else {
+          nudge(-direction.x * ARROW_PAN_STEP, -direction.y * ARROW_PAN_STEP);
+        }
+        return;
+      }
+
+      if (e.key === 'PageDown' || e.key === 'PageUp') {
+        e.preventDefault();
+        const distance = window.innerHeight * PAGE_PAN_RATIO;
+        nudge(0, e.key === 'PageDown' ? -distance : distance);
+      }
+    };
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.key === ' ') spaceHeld.current = false;
+    };
+
+    // Releasing Space in another window would otherwise leave it stuck
+    const handleBlur = () => {
+      spaceHeld.current = false;
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, [lightboxImage, moveFocus, nudge]);
+
+  // Back/forward open and close the lightbox
+  useEffect(() => {
+    const handlePopState = () => {
+      const image = findImage(images, readUrlState().imageId);
+      if (image) lightboxOriginId.current = image.id;
+      setLightboxImage(image);
+    };
+
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [images]);
+
+  // Keep `?at=` in sync with the view without adding history entries
+  useEffect(() => {
+    if (panPosition.x === initialView.x && panPosition.y === initialView.y && zoom === initialView.scale) {
+      return;
+    }
+
+    const timeout = setTimeout(() => {
+      const scale = scaleRef.current;
+      const { worldSize } = layout.config;
+      const centerX = (window.innerWidth / 2 - panRef.current.x) / scale;
+      const centerY = (window.innerHeight / 2 - panRef.current.y) / scale;
+      // The tile under the centre, so the link opens on the same cat at any viewport size
+      const anchor = getTileAnchor(layout, centerX, centerY);
+      // The world wraps, so any copy of the point is equivalent
+      const wrap = (value: number) => ((value % worldSize) + worldSize) % worldSize;
+      const at = anchor ? { anchor, zoom: scale } : { x: wrap(centerX), y: wrap(centerY), zoom: scale };
+      history.replaceState(history.state, '', buildUrl({ at }));
+    }, URL_SYNC_DELAY_MS);
+
+    return () => clearTimeout(timeout);
+  }, [panPosition.x, panPosition.y, zoom, initialView, layout]);
+
+  // Track the viewport, throttled to one update per frame
+  useEffect(() => {
+    let frame: number | null = null;
+
+    const handleResize = () => {
+      if (frame) return;
+      frame = requestAnimationFrame(() => {
+        frame = null;
+        setViewport(readViewport());
+      });
+    };
+
+    window.addEventListener('resize', handleResize);
+    window.addEventListener('orientationchange', handleResize);
+    return () => {
+      window.removeEventListener('resize', handleResize);
+      window.removeEventListener('orientationchange', handleResize);
+      if (frame) cancelAnimationFrame(frame);
+    };
   }, []);
 
+  // Remember where the old tiles were before the effect below moves the view
+  useLayoutEffect(() => {
+    if (lastTransitionKey.current === transitionKey) return;
+    lastTransitionKey.current = transitionKey;
+    pendingTransition.current = { tiles: lastTiles.current, pan: { ...panRef.current }, scale: scaleRef.current };
+  }, [transitionKey]);
+
+  // Keep whatever was under the viewport centre there when the viewport or
+  // the layout changes, before the browser paints the new frame
+  const previousView = useRef({ layout, viewport });
+  useLayoutEffect(() => {
+    const previous = previousView.current;
+    previousView.current = { layout, viewport };
+    if (previous.layout === layout && previous.viewport === viewport) return;
+
+    const scale = scaleRef.current;
+    let centerX = (previous.viewport.width / 2 - panRef.current.x) / scale;
+    let centerY = (previous.viewport.height / 2 - panRef.current.y) / scale;
+    if (previous.layout !== layout) {
+      ({ x: centerX, y: centerY } = mapPointBetweenLayouts(previous.layout, layout, centerX, centerY));
+    }
+
+    updateTransform(viewport.width / 2 - centerX * scale, viewport.height / 2 - centerY * scale);
+    // Re-render right away rather than on the next frame, so tiles from the
+    // new layout never show at the old offset
+    setPanPosition({ ...panRef.current });
+  }, [layout, viewport, updateTransform]);
+
+  // FLIP the tiles of a new layout: each starts where a tile with the same image
+  // was on screen and glides into place, tiles with no counterpart fade in.
+  // Waits for the render at the view the effect above settled on
+  useLayoutEffect(() => {
+    lastTiles.current = visibleImages;
+    const from = pendingTransition.current;
+    if (!from || panPosition.x !== panRef.current.x || panPosition.y !== panRef.current.y) return;
+    pendingTransition.current = null;
+    // TileCanvas redraws in place, gliding its empty buttons would only misplace the hearts
+    if (renderer === 'canvas' || window.matchMedia('(prefers-reduced-motion: reduce)').matches) return;
+
+    const scale = scaleRef.current;
+    const toScreen = ({ image, renderX, renderY }: VisibleImage, pan: { x: number; y: number }, tileScale: number) => ({
+      x: (renderX + image.width / 2) * tileScale + pan.x,
+      y: (renderY + image.height / 2) * tileScale + pan.y,
+      width: image.width * tileScale,
+      height: image.height * tileScale,
+    });
+    const tilesByKey = new Map(visibleImages.map((tile) => [getTileKey(tile), tile]));
+    const timing = { duration: RELAYOUT_ANIMATION_MS, easing: 'cubic-bezier(0.2, 0, 0, 1)' };
+
+    for (const button of containerRef.current?.querySelectorAll<HTMLElement>('[data-tile-key]') ?? []) {
+      const tile = tilesByKey.get(button.dataset.tileKey!);
+      // The positioned wrapper, so the heart travels with its tile
+      const element = button.parentElement;
+      if (!tile || !element) continue;
+
+      const next = toScreen(tile, panRef.current, scale);
+      let previous: ReturnType<typeof toScreen> | null = null;
+      let previousDistance = Infinity;
+      for (const old of from.tiles) {
+        if (old.image.id !== tile.image.id) continue;
+        const rect = toScreen(old, from.pan, from.scale);
+        const distance = Math.hypot(rect.x - next.x, rect.y - next.y);
+        if (distance < previousDistance) {
+          previous = rect;
+          previousDistance = distance;
+        }
+      }
+
+      // Offsets are in the pan container's units, which are scaled by the zoom
+      element.animate(
+        previous
+          ? [
+              {
+                translate: `${(previous.x - next.x) / scale}px ${(previous.y - next.y) / scale}px`,
+                scale: `${previous.width / next.width} ${previous.height / next.height}`,
+              },
+              { translate: '0 0', scale: '1 1' },
+            ]
+          : [{ opacity: 0, scale: '0.9' }, { opacity: 1, scale: '1' }],
+        timing
+      );
+    }
+  }, [visibleImages, panPosition, transitionKey, renderer]);
+
+  // Wheel and Safari gesture listeners need to be non-passive to block browser zoom
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+
+      // deltaMode 1 means lines, 2 means pages, rather than pixels
+      const unit = e.deltaMode === 1 ? 16 : e.deltaMode === 2 ? window.innerHeight : 1;
+
+      // Trackpad pinch arrives as a wheel event with ctrlKey set
+      if (e.ctrlKey || e.metaKey) {
+        stopInertia();
+        zoomTo(scaleRef.current * Math.exp(-e.deltaY * unit * 0.01), { x: e.clientX, y: e.clientY });
+        return;
+      }
+
+      // Wheel and two-finger scroll glide the world like a released drag
+      nudge(-e.deltaX * unit, -e.deltaY * unit, true);
+    };
+
+    // Safari reports trackpad pinch through non-standard gesture events
+    type GestureEvent = Event & { scale: number; clientX: number; clientY: number };
+    let gestureStartScale = 1;
+
+    const handleGestureStart = (e: Event) => {
+      e.preventDefault();
+      stopInertia();
+      gestureStartScale = scaleRef.current;
+    };
+
+    const handleGestureChange = (e: Event) => {
+      e.preventDefault();
+      const gesture = e as GestureEvent;
+      zoomTo(gestureStartScale * gesture.scale, { x: gesture.clientX, y: gesture.clientY });
+    };
+
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    canvas.addEventListener('gesturestart', handleGestureStart);
+    canvas.addEventListener('gesturechange', handleGestureChange);
+    return () => {
+      canvas.removeEventListener('wheel', handleWheel);
+      canvas.removeEventListener('gesturestart', handleGestureStart);
+      canvas.removeEventListener('gesturechange', handleGestureChange);
+    };
+  }, [stopInertia, zoomTo, nudge]);
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
@@ -171,12 +849,16 @@ export function Canvas({ images }: CanvasProps) {
       if (syncStateRef.current) {
         cancelAnimationFrame(syncStateRef.current);
       }
+      if (syncTimeoutRef.current) {
+        clearTimeout(syncTimeoutRef.current);
+      }
     };
   }, [stopInertia]);
 
   return (
     <>
       <div
+        ref={canvasRef}
         className={`${styles.canvas} ${isGrabbing ? styles.canvasGrabbing : styles.canvasIdle}`}
         onPointerDown={handlePointerDown}
         onPointerMove={handlePointerMove}
@@ -187,31 +869,76 @@ export function Canvas({ images }: CanvasProps) {
           touchAction: 'none',
         }}
       >
+        {renderer === 'canvas' && (
+          <TileCanvas
+            ref={tileCanvasRef}
+            layout={layout}
+            imagesById={imagesById}
+            viewport={viewport}
+            panRef={panRef}
+            scaleRef={scaleRef}
+            onTileClick={handleImageClick}
+          />
+        )}
+        {/* Over the canvas the same tiles are empty buttons, so focus, arrow keys
+            and hearts work in both renderers */}
         <div
           ref={containerRef}
           className={styles.panContainer}
-          style={{ transform: `translate3d(${panPosition.x}px, ${panPosition.y}px, 0)` }}
+          style={{ transform: `translate3d(${panPosition.x}px, ${panPosition.y}px, 0) scale(${zoom})` }}
         >
-          {visibleImages.map(({ image, renderX, renderY }, index) => (
-            <ImageWithPlaceholder
-              key={`${image.id}-${renderX}-${renderY}`}
-              imageId={image.id}
-              priority={index < 4}
-              style={{
-                left: renderX,
-                top: renderY,
-                width: image.width,
-                height: image.height,
-              }}
-              onClick={() => handleImageClick(image.id)}
-            />
-          ))}
+          {visibleImages.map((tile, index) => {
+            const { image, renderX, renderY } = tile;
+            const tileKey = getTileKey(tile);
+            const meta = imagesById.get(image.id);
+            if (!meta) return null;
+            return (
+              <ImageWithPlaceholder
+                key={tileKey}
+                tileKey={tileKey}
+                image={meta}
+                tabIndex={tileKey === focusableTileKey ? 0 : -1}
+                priority={index < 4}
+                sizes={getTileSizes(image.width, resolutionTier)}
+                polaroid={image.rotation !== undefined}
+                hitTarget={renderer === 'canvas'}
+                style={{
+                  left: renderX,
+                  top: renderY,
+                  width: image.width,
+                  height: image.height,
+                  zIndex: image.zIndex,
+                  transform: image.rotation ? `rotate(${image.rotation}deg)` : undefined,
+                }}
+                favorite={onToggleFavorite ? (favorites?.has(image.id) ?? false) : undefined}
+                onClick={() => handleImageClick(image.id)}
+                onFocus={(e) => handleTileFocus(tile, e)}
+                onFavoriteClick={() => handleFavoriteClick(image.id)}
+              />
+            );
+          })}
         </div>
       </div>
 
+      <ZoomControls
+        zoom={zoom}
+        canZoomIn={zoom < MAX_ZOOM}
+        canZoomOut={zoom > MIN_ZOOM}
+        onZoomIn={() => animateZoom(scaleRef.current * ZOOM_STEP)}
+        onZoomOut={() => animateZoom(scaleRef.current / ZOOM_STEP)}
+        onReset={() => animateZoom(1)}
+      />
+
       {lightboxImage && (
         <Suspense fallback={<LoadingCursor />}>
-          <Lightbox image={lightboxImage} onClose={closeLightbox} />
+          <Lightbox
+            image={lightboxImage}
+            images={images}
+            favorite={onToggleFavorite ? (favorites?.has(lightboxImage.id) ?? false) : undefined}
+            onNavigate={navigateLightbox}
+            onClose={closeLightbox}
+            onToggleFavorite={() => onToggleFavorite?.(lightboxImage.id)}
+          />
         </Suspense>
       )}
     </>
@@ -229,31 +956,76 @@ function LoadingCursor() {
 }
 
 interface ImageWithPlaceholderProps {
-  imageId: string;
+  tileKey: string;
+  image: ImageMeta;
+  tabIndex: number;
   priority?: boolean;
+  sizes: string;
+  polaroid?: boolean;
+  // TileCanvas draws the pixels, only the button and the heart are rendered
+  hitTarget?: boolean;
   style?: CSSProperties;
+  // Undefined hides the heart
+  favorite?: boolean;
   onClick?: () => void;
+  onFocus?: (e: FocusEvent) => void;
+  onFavoriteClick?: () => void;
 }
 
-function ImageWithPlaceholder({ imageId, priority, style, onClick }: ImageWithPlaceholderProps) {
+function ImageWithPlaceholder({ tileKey, image, tabIndex, priority, sizes, polaroid, hitTarget, style, favorite, onClick, onFocus, onFavoriteClick }: ImageWithPlaceholderProps) {
   const [loaded, setLoaded] = useState(false);
+  const { placeholder, dominantColor } = image;
 
+  // Buttons can't nest, so the heart sits next to the tile in a shared wrapper
   return (
-    <div
-      className={`${styles.imageContainer} ${loaded ? styles.imageContainerLoaded : ''}`}
-      style={style}
-      onClick={onClick}
-    >
-      <img
-        src={getThumbUrl(imageId)}
-        srcSet={getThumbSrcSet(imageId)}
-        alt=""
-        loading={priority ? 'eager' : 'lazy'}
-        fetchPriority={priority ? 'high' : undefined}
-        draggable={false}
-        className={`${styles.image} ${loaded ? styles.imageVisible : ''}`}
-        onLoad={() => setLoaded(true)}
-      />
+    <div className={styles.tile} style={style}>
+      <button
+        type="button"
+        data-tile-key={tileKey}
+        tabIndex={tabIndex}
+        aria-label={image.id}
+        className={
+          hitTarget
+            ? `${styles.imageContainer} ${styles.imageContainerHitTarget}`
+            : `${styles.imageContainer} ${loaded ? styles.imageContainerLoaded : ''} ${polaroid ? styles.imageContainerPolaroid : ''} ${placeholder || dominantColor ? styles.imageContainerWithPreview : ''}`
+        }
+        onClick={onClick}
+        onFocus={onFocus}
+      >
+        {!hitTarget && (placeholder || dominantColor) && (
+          <span
+            className={styles.placeholder}
+            style={{
+              backgroundColor: dominantColor,
+              backgroundImage: placeholder ? `url(${placeholder})` : undefined,
+            }}
+          />
+        )}
+        {!hitTarget && (
+          <Picture
+            image={image}
+            sizes={sizes}
+            loading={priority ? 'eager' : 'lazy'}
+            fetchPriority={priority ? 'high' : undefined}
+            draggable={false}
+            className={`${styles.image} ${loaded ? styles.imageVisible : ''}`}
+            onLoad={() => setLoaded(true)}
+          />
+        )}
+      </button>
+      {favorite !== undefined && (
+        <button
+          type="button"
+          // Arrow keys move between tiles, keyboard users get the heart in the lightbox
+          tabIndex={-1}
+          className={`${styles.favoriteButton} ${favorite ? styles.favoriteButtonActive : ''}`}
+          aria-label={favorite ? 'убрать из избранного' : 'в избранное'}
+          aria-pressed={favorite}
+          onClick={onFavoriteClick}
+        >
+          <HeartIcon filled={favorite} size={18} />
+        </button>
+      )}
     </div>
   );
 }
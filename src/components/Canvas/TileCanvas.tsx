@@ -0,0 +1,254 @@
+import { useCallback, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import type { MouseEvent, Ref, RefObject } from 'react';
+import { findTileAt, getVisibleImages } from '../../lib/globalLayout';
+import type { GlobalLayout, VisibleImage } from '../../lib/globalLayout';
+import type { ViewportInfo } from '../../lib/layout';
+import { getPreferredFormat, getSizedUrl } from '../../lib/imageUrl';
+import { getResolutionTier } from '../../lib/zoom';
+import type { ImageMeta } from '../../types';
+import styles from './Canvas.module.css';
+
+// Decoded images kept around, least recently drawn go first. Images still
+// loading or drawn in the current frame stay even past it
+const MAX_CACHED_IMAGES = 600;
+const FADE_IN_MS = 220;
+// Same geometry as the DOM tiles in Canvas.module.css, in world px
+const TILE_RADIUS = 8;
+const POLAROID_SIDE = 0.06;
+const POLAROID_BOTTOM = 0.18;
+const PREVIEW_COLOR = '#e6e9f2';
+
+export interface TileCanvasHandle {
+  // Redraw on the next frame, e.g. after the view moved
+  invalidate: () => void;
+}
+
+interface TileCanvasProps {
+  ref?: Ref<TileCanvasHandle>;
+  layout: GlobalLayout;
+  imagesById: Map<string, ImageMeta>;
+  viewport: ViewportInfo;
+  // Read on every frame, so panning never waits for a React render
+  panRef: RefObject<{ x: number; y: number }>;
+  scaleRef: RefObject<number>;
+  // Clicks that miss the tile buttons Canvas lays over the settled view,
+  // e.g. on a tile that scrolled in a moment ago
+  onTileClick: (imageId: string) => void;
+}
+
+interface CachedImage {
+  element: HTMLImageElement;
+  imageId: string;
+  // When decoding finished, null until then
+  loadedAt: number | null;
+  // Last frame that asked for it, see beginFrame
+  frame: number;
+}
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Loads images by URL and remembers the sharpest decoded one per image, which
+// is drawn while a sharper one for a deeper zoom is still loading
+function createImageCache() {
+  const entries = new Map<string, CachedImage>();
+  const sharpest = new Map<string, CachedImage>();
+  let frame = 0;
+
+  // Only decoded images off screen go, dropping a loading one would restart it on the next frame
+  const evict = () => {
+    for (const [url, entry] of entries) {
+      if (entries.size <= MAX_CACHED_IMAGES) break;
+      if (entry.loadedAt === null || entry.frame === frame) continue;
+      entries.delete(url);
+      if (sharpest.get(entry.imageId) === entry) sharpest.delete(entry.imageId);
+    }
+  };
+
+  return {
+    // Called before drawing, entries asked for from here on are on screen
+    beginFrame(): void {
+      frame++;
+    },
+    // onLoad runs once the image is decoded, if it is still cached by then
+    get(url: string, imageId: string, onLoad: () => void): CachedImage {
+      let entry = entries.get(url);
+      if (entry) {
+        // Re-insert, the map doubles as the recently-used order
+        entries.delete(url);
+        entries.set(url, entry);
+        entry.frame = frame;
+        return entry;
+      }
+
+      const element = new Image();
+      element.decoding = 'async';
+      element.src = url;
+      const created: CachedImage = { element, imageId, loadedAt: null, frame };
+      element
+        .decode()
+        .then(() => {
+          if (entries.get(url) !== created) return;
+          created.loadedAt = performance.now();
+          const current = sharpest.get(imageId);
+          if (!current || current.element.naturalWidth < element.naturalWidth) sharpest.set(imageId, created);
+          onLoad();
+        })
+        .catch(() => {
+          // Broken image, the preview stays
+        });
+      entry = created;
+      entries.set(url, entry);
+      evict();
+      return entry;
+    },
+    getSharpest(imageId: string): CachedImage | undefined {
+      const entry = sharpest.get(imageId);
+      if (entry) entry.frame = frame;
+      return entry;
+    },
+  };
+}
+
+// object-fit: cover
+function drawCover(ctx: CanvasRenderingContext2D, image: HTMLImageElement, box: Box): void {
+  const scale = Math.max(box.width / image.naturalWidth, box.height / image.naturalHeight);
+  const sourceWidth = box.width / scale;
+  const sourceHeight = box.height / scale;
+  ctx.drawImage(
+    image,
+    (image.naturalWidth - sourceWidth) / 2,
+    (image.naturalHeight - sourceHeight) / 2,
+    sourceWidth,
+    sourceHeight,
+    box.x,
+    box.y,
+    box.width,
+    box.height
+  );
+}
+
+// Stacking like the DOM tiles: zIndex first, then order
+function byZIndex(a: VisibleImage, b: VisibleImage): number {
+  return (a.image.zIndex ?? 0) - (b.image.zIndex ?? 0);
+}
+
+// Draws the visible tiles onto one <canvas>. Same layout and lightbox as the
+// DOM tiles, but no image element per tile and no React render per frame. Focus,
+// hearts and clicks come from the buttons Canvas lays over it
+export function TileCanvas({
+  ref,
+  layout,
+  imagesById,
+  viewport,
+  panRef,
+  scaleRef,
+  onTileClick,
+}: TileCanvasProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const frameRef = useRef<number | null>(null);
+  const drawRef = useRef<() => void>(() => {});
+  const invalidate = useCallback(() => {
+    if (frameRef.current !== null) return;
+    frameRef.current = requestAnimationFrame(() => {
+      frameRef.current = null;
+      drawRef.current();
+    });
+  }, []);
+  const [cache] = useState(createImageCache);
+
+  useImperativeHandle(ref, () => ({ invalidate }), [invalidate]);
+
+  // Everything a frame depends on besides the view, which comes from the refs
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const { width, height, devicePixelRatio: dpr } = viewport;
+    canvas.width = Math.round(width * dpr);
+    canvas.height = Math.round(height * dpr);
+
+    drawRef.current = () => {
+      const pan = panRef.current;
+      const scale = scaleRef.current;
+      const now = performance.now();
+      let fading = false;
+      cache.beginFrame();
+
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      ctx.setTransform(dpr * scale, 0, 0, dpr * scale, dpr * pan.x, dpr * pan.y);
+
+      const tiles = getVisibleImages(layout, -pan.x / scale, -pan.y / scale, width / scale, height / scale).sort(byZIndex);
+      // Zoom tiers like the DOM tiles' `sizes`, so sources don't change on every wheel tick
+      const pixelsPerUnit = getResolutionTier(scale) * dpr;
+
+      for (const { image: tile, renderX, renderY } of tiles) {
+        const meta = imagesById.get(tile.id);
+        if (!meta) continue;
+
+        ctx.save();
+        ctx.translate(renderX + tile.width / 2, renderY + tile.height / 2);
+        if (tile.rotation) ctx.rotate((tile.rotation * Math.PI) / 180);
+        ctx.translate(-tile.width / 2, -tile.height / 2);
+
+        let box: Box = { x: 0, y: 0, width: tile.width, height: tile.height };
+        if (tile.rotation !== undefined) {
+          // Polaroid frame with a soft edge instead of the DOM's blurred shadow
+          ctx.fillStyle = 'rgba(0, 0, 0, 0.12)';
+          ctx.fillRect(-1, 2, tile.width + 2, tile.height + 3);
+          ctx.fillStyle = 'white';
+          ctx.fillRect(0, 0, tile.width, tile.height);
+          const side = tile.width * POLAROID_SIDE;
+          box = { x: side, y: side, width: tile.width - side * 2, height: tile.height - side - tile.width * POLAROID_BOTTOM };
+        } else {
+          ctx.beginPath();
+          ctx.roundRect(0, 0, tile.width, tile.height, TILE_RADIUS);
+          ctx.clip();
+        }
+
+        ctx.fillStyle = meta.dominantColor ?? PREVIEW_COLOR;
+        ctx.fillRect(box.x, box.y, box.width, box.height);
+        if (meta.placeholder) {
+          const placeholder = cache.get(meta.placeholder, `${meta.id}:placeholder`, invalidate);
+          if (placeholder.loadedAt !== null) drawCover(ctx, placeholder.element, box);
+        }
+
+        const wanted = cache.get(getSizedUrl(meta, box.width * pixelsPerUnit, getPreferredFormat(meta)), meta.id, invalidate);
+        const picture = wanted.loadedAt !== null ? wanted : cache.getSharpest(meta.id);
+        if (picture?.loadedAt != null) {
+          const alpha = Math.min(1, (now - picture.loadedAt) / FADE_IN_MS);
+          if (alpha < 1) fading = true;
+          ctx.globalAlpha = alpha;
+          drawCover(ctx, picture.element, box);
+          ctx.globalAlpha = 1;
+        }
+
+        ctx.restore();
+      }
+
+      if (fading) invalidate();
+    };
+    invalidate();
+  }, [layout, imagesById, viewport, panRef, scaleRef, cache, invalidate]);
+
+  useEffect(() => {
+    return () => {
+      if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    };
+  }, []);
+
+  const handleClick = (e: MouseEvent) => {
+    const scale = scaleRef.current;
+    const hit = findTileAt(layout, (e.clientX - panRef.current.x) / scale, (e.clientY - panRef.current.y) / scale);
+    if (hit) onTileClick(hit.tile.image.id);
+  };
+
+  // The buttons above name the tiles, the pixels add nothing for assistive tech
+  return <canvas ref={canvasRef} className={styles.tileCanvas} aria-hidden="true" onClick={handleClick} />;
+}
@@ -0,0 +1,94 @@
+import { useRef, useState } from 'react';
+import { parseFavoritesFile, serializeFavorites } from '../../lib/favorites';
+import { buildFavoritesUrl } from '../../lib/urlState';
+import styles from './FavoritesTransfer.module.css';
+
+interface FavoritesTransferProps {
+  favorites: string[];
+  // Receives the ids from a file, merging is up to the caller
+  onImport: (ids: string[]) => void;
+}
+
+function downloadFile(name: string, contents: string): void {
+  const url = URL.createObjectURL(new Blob([contents], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Export, import and share favourites, the only way to move them between devices
+export function FavoritesTransfer({ favorites, onImport }: FavoritesTransferProps) {
+  const [status, setStatus] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const hasFavorites = favorites.length > 0;
+
+  const handleExport = () => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadFile(`favorites-${date}.json`, serializeFavorites(favorites));
+    setStatus('');
+  };
+
+  const handleFile = async (file: File) => {
+    try {
+      const ids = parseFavoritesFile(await file.text());
+      const added = ids.filter((id) => !favorites.includes(id)).length;
+      onImport(ids);
+      setStatus(added > 0 ? `добавлено: ${added}` : 'все уже в избранном');
+    } catch (error) {
+      console.error(error);
+      setStatus('не получилось прочитать файл');
+    }
+  };
+
+  const handleShare = async () => {
+    const url = buildFavoritesUrl(favorites);
+    // The share sheet on phones, the clipboard elsewhere, a prompt to copy from as a last resort
+    if (navigator.share) {
+      try {
+        await navigator.share({ title: document.title, url });
+      } catch {
+        // Dismissed
+      }
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(url);
+      setStatus('ссылка скопирована');
+    } catch {
+      window.prompt('Ссылка на избранное', url);
+    }
+  };
+
+  return (
+    <div className={styles.transfer}>
+      <div className={styles.actions}>
+        <button className={styles.action} onClick={handleExport} disabled={!hasFavorites}>
+          скачать
+        </button>
+        <button className={styles.action} onClick={() => fileInputRef.current?.click()}>
+          загрузить
+        </button>
+        <button className={styles.action} onClick={handleShare} disabled={!hasFavorites}>
+          поделиться
+        </button>
+        <input
+          ref={fileInputRef}
+          className={styles.fileInput}
+          type="file"
+          accept="application/json,.json"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            // Allow picking the same file again
+            e.target.value = '';
+            if (file) void handleFile(file);
+          }}
+        />
+      </div>
+      <span className={styles.status} aria-live="polite">
+        {status}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { ReactNode } from 'react';
+import { collectTags, EMPTY_FILTER, isFilterActive } from '../../lib/imageFilter';
+import type { ImageFilter } from '../../lib/imageFilter';
+import type { ImageMeta } from '../../types';
+import { HeartIcon } from '../HeartIcon/HeartIcon';
+import styles from './FilterBar.module.css';
+
+// The most used tags, a longer list would need its own scroll
+const MAX_TAGS = 24;
+
+interface FilterBarProps {
+  // The whole collection, for the tag list
+  images: ImageMeta[];
+  filter: ImageFilter;
+  // Images the filter matches, 0 keeps the canvas as it was
+  matchCount: number;
+  onChange: (filter: ImageFilter) => void;
+  // Favourites that are in the collection, the toggle stays off without any
+  favoriteCount: number;
+  favoritesOnly: boolean;
+  onFavoritesOnlyChange: (favoritesOnly: boolean) => void;
+  // Extra controls at the bottom of the panel
+  children?: ReactNode;
+}
+
+export function FilterBar({
+  images,
+  filter,
+  matchCount,
+  onChange,
+  favoriteCount,
+  favoritesOnly,
+  onFavoritesOnlyChange,
+  children,
+}: FilterBarProps) {
+  const active = isFilterActive(filter) || favoritesOnly;
+  // A link with a filter opens the panel, so it's clear why some cats are missing
+  const [isOpen, setIsOpen] = useState(active);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const tags = useMemo(() => collectTags(images).slice(0, MAX_TAGS), [images]);
+
+  useEffect(() => {
+    if (isOpen) inputRef.current?.focus({ preventScroll: true });
+  }, [isOpen]);
+
+  const toggleTag = (tag: string) => {
+    const selected = filter.tags.includes(tag)
+      ? filter.tags.filter((t) => t !== tag)
+      : [...filter.tags, tag];
+    onChange({ ...filter, tags: selected });
+  };
+
+  if (!isOpen) {
+    return (
+      <button
+        className={`${styles.button} ${active ? styles.buttonActive : ''}`}
+        onClick={() => setIsOpen(true)}
+        aria-label={active ? `фильтр: ${matchCount} котов` : 'искать котов'}
+      >
+        <svg width="20" height="20" viewBox="0 0 20 20" aria-hidden="true">
+          <circle cx="8.5" cy="8.5" r="5.5" fill="none" stroke="currentColor" strokeWidth="2" />
+          <path d="M13 13l4.5 4.5" stroke="currentColor" strokeWidth="2" strokeLinecap="round" />
+        </svg>
+      </button>
+    );
+  }
+
+  return (
+    <div
+      className={styles.panel}
+      role="search"
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') setIsOpen(false);
+      }}
+    >
+      <button className={styles.closeButton} onClick={() => setIsOpen(false)} aria-label="закрыть поиск">
+        ×
+      </button>
+      <input
+        ref={inputRef}
+        className={styles.input}
+        type="search"
+        value={filter.query}
+        placeholder="рыжий, в коробке…"
+        aria-label="искать по подписи и тегам"
+        onChange={(e) => onChange({ ...filter, query: e.target.value })}
+      />
+      <div className={styles.tags}>
+        <button
+          className={`${styles.tag} ${favoritesOnly ? styles.tagSelected : ''}`}
+          aria-pressed={favoritesOnly}
+          disabled={favoriteCount === 0 && !favoritesOnly}
+          onClick={() => onFavoritesOnlyChange(!favoritesOnly)}
+        >
+          <HeartIcon filled={favoritesOnly} size={12} /> избранное <span className={styles.tagCount}>{favoriteCount}</span>
+        </button>
+        {tags.map(({ tag, count }) => (
+          <button
+            key={tag}
+            className={`${styles.tag} ${filter.tags.includes(tag) ? styles.tagSelected : ''}`}
+            aria-pressed={filter.tags.includes(tag)}
+            onClick={() => toggleTag(tag)}
+          >
+            #{tag} <span className={styles.tagCount}>{count}</span>
+          </button>
+        ))}
+      </div>
+      {active && (
+        <div className={styles.status} aria-live="polite">
+          {matchCount > 0 ? `${matchCount} из ${images.length}` : 'ничего не нашлось'}
+          <button
+            className={styles.reset}
+            onClick={() => {
+              onChange(EMPTY_FILTER);
+              onFavoritesOnlyChange(false);
+            }}
+          >
+            сбросить
+          </button>
+        </div>
+      )}
+      {children}
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+import { HEART_PATH } from './heartPath';
+
+interface HeartIconProps {
+  filled: boolean;
+  size?: number;
+}
+
+// Outline for "add", filled for "already a favourite"
+export function HeartIcon({ filled, size = 20 }: HeartIconProps) {
+  return (
+    <svg width={size} height={size} viewBox="0 0 24 24" aria-hidden="true">
+      <path
+        d={HEART_PATH}
+        fill={filled ? 'currentColor' : 'none'}
+        stroke="currentColor"
+        strokeWidth="2"
+        strokeLinejoin="round"
+      />
+    </svg>
+  );
+}
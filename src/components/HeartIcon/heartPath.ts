@@ -0,0 +1,3 @@
+// 24×24 heart, shared by the SVG icon and the canvas tile renderer
+export const HEART_PATH =
+  'M12 20.5l-1.3-1.2C5.6 14.7 2.5 11.9 2.5 8.4c0-2.8 2.2-4.9 4.9-4.9 1.7 0 3.3.8 4.6 2.1 1.3-1.3 2.9-2.1 4.6-2.1 2.7 0 4.9 2.1 4.9 4.9 0 3.5-3.1 6.3-8.2 10.9L12 20.5z';
@@ -1,15 +1,65 @@
-import { useEffect, useCallback, useState } from 'react';
-import { getOriginalUrl } from '../../lib/imageUrl';
+import { useEffect, useCallback, useState, useMemo, useRef } from 'react';
+import type { PointerEvent } from 'react';
+import { FORMAT_MIME_TYPES, getOriginalUrl, getSrcSet, PICTURE_FORMATS } from '../../lib/imageUrl';
 import type { ImageMeta } from '../../types';
+import { HeartIcon } from '../HeartIcon/HeartIcon';
+import { Picture } from '../Picture/Picture';
 import styles from './Lightbox.module.css';
 
+// Horizontal distance a swipe has to travel to switch images
+const SWIPE_THRESHOLD = 60;
+
+// Rendered width of the frame, see .frame in Lightbox.module.css
+function getLightboxSizes(image: ImageMeta): string {
+  return `min(90vw, calc(90dvh * ${image.aspectRatio}))`;
+}
+
+const dateFormat = new Intl.DateTimeFormat('ru-RU', { day: 'numeric', month: 'long', year: 'numeric' });
+// Plain dates parse as UTC midnight, keep them from slipping to the previous day west of Greenwich
+const plainDateFormat = new Intl.DateTimeFormat('ru-RU', { day: 'numeric', month: 'long', year: 'numeric', timeZone: 'UTC' });
+
+function formatDate(date: string): string {
+  return (date.length === 10 ? plainDateFormat : dateFormat).format(new Date(date));
+}
+
+// A detached <picture> picks the same source the lightbox will, so the preload isn't wasted
+function preloadPicture(image: ImageMeta): void {
+  const picture = document.createElement('picture');
+  for (const format of PICTURE_FORMATS) {
+    const srcset = getSrcSet(image, format);
+    if (!srcset) continue;
+    const source = document.createElement('source');
+    source.type = FORMAT_MIME_TYPES[format];
+    source.sizes = getLightboxSizes(image);
+    source.srcset = srcset;
+    picture.append(source);
+  }
+  const img = new Image();
+  picture.append(img);
+  img.src = getOriginalUrl(image);
+}
+
 interface LightboxProps {
   image: ImageMeta;
+  images: ImageMeta[];
+  // Undefined hides the heart
+  favorite?: boolean;
+  onNavigate: (image: ImageMeta) => void;
   onClose: () => void;
+  onToggleFavorite?: () => void;
 }
 
-export function Lightbox({ image, onClose }: LightboxProps) {
+export function Lightbox({ image, images, favorite, onNavigate, onClose, onToggleFavorite }: LightboxProps) {
   const [isClosing, setIsClosing] = useState(false);
+  const [direction, setDirection] = useState<'next' | 'prev' | null>(null);
+  const [swipeOffset, setSwipeOffset] = useState(0);
+  const [loadedId, setLoadedId] = useState<string | null>(null);
+
+  const swipeStart = useRef<{ x: number; y: number; pointerId: number } | null>(null);
+  const hasSwiped = useRef(false);
+
+  const index = useMemo(() => images.findIndex((img) => img.id === image.id), [images, image.id]);
+  const canNavigate = index !== -1 && images.length > 1;
 
   const handleClose = useCallback(() => {
     setIsClosing(true);
@@ -17,14 +67,32 @@ export function Lightbox({ image, onClose }: LightboxProps) {
     setTimeout(onClose, 150);
   }, [onClose]);
 
+  // Step through the manifest order, wrapping around like the canvas does
+  const navigate = useCallback((step: 1 | -1) => {
+    if (!canNavigate) return;
+    setDirection(step > 0 ? 'next' : 'prev');
+    onNavigate(images[(index + step + images.length) % images.length]);
+  }, [canNavigate, images, index, onNavigate]);
+
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (e.key === 'Escape') handleClose();
+      if (e.key === 'ArrowRight') navigate(1);
+      if (e.key === 'ArrowLeft') navigate(-1);
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [handleClose]);
+  }, [handleClose, navigate]);
+
+  // Warm up the cache for the neighbours so navigation feels instant
+  useEffect(() => {
+    if (!canNavigate) return;
+    for (const step of [1, -1]) {
+      const neighbour = images[(index + step + images.length) % images.length];
+      preloadPicture(neighbour);
+    }
+  }, [canNavigate, images, index]);
 
   useEffect(() => {
     // Prevent background interaction while lightbox is open
@@ -40,21 +108,135 @@ export function Lightbox({ image, onClose }: LightboxProps) {
 
   const handleBackdropClick = useCallback(
     (e: React.MouseEvent) => {
+      // A swipe that ends outside the image still produces a click on the backdrop
+      if (hasSwiped.current) {
+        hasSwiped.current = false;
+        return;
+      }
       if (e.target === e.currentTarget) handleClose();
     },
     [handleClose]
   );
 
+  const handlePointerDown = useCallback((e: PointerEvent) => {
+    // Mouse users have the buttons and arrow keys, swiping is for touch
+    if (e.pointerType === 'mouse' || !canNavigate) return;
+    swipeStart.current = { x: e.clientX, y: e.clientY, pointerId: e.pointerId };
+    hasSwiped.current = false;
+  }, [canNavigate]);
+
+  const handlePointerMove = useCallback((e: PointerEvent) => {
+    const start = swipeStart.current;
+    if (!start || start.pointerId !== e.pointerId) return;
+
+    const deltaX = e.clientX - start.x;
+    // Ignore mostly vertical movement
+    if (Math.abs(deltaX) < Math.abs(e.clientY - start.y)) return;
+    setSwipeOffset(deltaX);
+  }, []);
+
+  const handlePointerUp = useCallback((e: PointerEvent) => {
+    const start = swipeStart.current;
+    if (!start || start.pointerId !== e.pointerId) return;
+    swipeStart.current = null;
+
+    const deltaX = e.clientX - start.x;
+    setSwipeOffset(0);
+
+    if (Math.abs(deltaX) > SWIPE_THRESHOLD) {
+      hasSwiped.current = true;
+      navigate(deltaX < 0 ? 1 : -1);
+    }
+  }, [navigate]);
+
+  const imageAnimationClass = isClosing
+    ? styles.imageClosing
+    : direction === 'next'
+      ? styles.imageFromNext
+      : direction === 'prev'
+        ? styles.imageFromPrev
+        : '';
+
   return (
     <div
       className={`${styles.backdrop} ${isClosing ? styles.backdropClosing : ''}`}
       onClick={handleBackdropClick}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
     >
-      <img
-        src={getOriginalUrl(image.id)}
-        alt=""
-        className={`${styles.image} ${isClosing ? styles.imageClosing : ''}`}
-      />
+      <div
+        className={`${styles.slide} ${swipeOffset ? styles.slideSwiping : ''}`}
+        style={{ transform: `translate3d(${swipeOffset}px, 0, 0)` }}
+      >
+        <div
+          // Remount on navigation so the slide-in animation replays
+          key={image.id}
+          className={`${styles.frame} ${imageAnimationClass}`}
+          style={{
+            // Reserve the final box up front so the preview doesn't jump when the original arrives
+            aspectRatio: image.aspectRatio,
+            width: `min(90vw, calc(90dvh * ${image.aspectRatio}))`,
+            backgroundColor: image.dominantColor,
+            backgroundImage: image.placeholder ? `url(${image.placeholder})` : undefined,
+          }}
+        >
+          <Picture
+            image={image}
+            sizes={getLightboxSizes(image)}
+            draggable={false}
+            className={`${styles.image} ${loadedId === image.id ? styles.imageLoaded : ''}`}
+            onLoad={() => setLoadedId(image.id)}
+          />
+        </div>
+      </div>
+      {(image.caption || image.credit || image.date || image.postUrl || image.tags?.length) && (
+        <div key={image.id} className={styles.caption}>
+          {image.caption && <p className={styles.captionText}>{image.caption}</p>}
+          {(image.credit || image.date || image.postUrl) && (
+            <p className={styles.captionMeta}>
+              {[image.credit, image.date && formatDate(image.date)].filter(Boolean).join(' · ')}
+              {image.postUrl && (
+                <a className={styles.captionLink} href={image.postUrl} target="_blank" rel="noopener noreferrer">
+                  смотреть в канале
+                </a>
+              )}
+            </p>
+          )}
+          {image.tags && image.tags.length > 0 && (
+            <ul className={styles.captionTags}>
+              {image.tags.map((tag) => (
+                <li key={tag}>#{tag}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+      {canNavigate && (
+        <>
+          <button className={`${styles.navButton} ${styles.navPrev}`} onClick={() => navigate(-1)} aria-label="предыдущая">
+            <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <polyline points="15 18 9 12 15 6"></polyline>
+            </svg>
+          </button>
+          <button className={`${styles.navButton} ${styles.navNext}`} onClick={() => navigate(1)} aria-label="следующая">
+            <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <polyline points="9 18 15 12 9 6"></polyline>
+            </svg>
+          </button>
+        </>
+      )}
+      {favorite !== undefined && (
+        <button
+          className={`${styles.favoriteButton} ${favorite ? styles.favoriteButtonActive : ''}`}
+          onClick={onToggleFavorite}
+          aria-label={favorite ? 'убрать из избранного' : 'в избранное'}
+          aria-pressed={favorite}
+        >
+          <HeartIcon filled={favorite} size={22} />
+        </button>
+      )}
       <button className={styles.closeButton} onClick={handleClose}>
         <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
           <line x1="18" y1="6" x2="6" y2="18"></line>
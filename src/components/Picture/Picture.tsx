@@ -0,0 +1,30 @@
+import type { ImgHTMLAttributes } from 'react';
+import { FORMAT_MIME_TYPES, getOriginalUrl, getSrcSet, PICTURE_FORMATS } from '../../lib/imageUrl';
+import type { ImageMeta } from '../../types';
+
+interface PictureProps extends Omit<ImgHTMLAttributes<HTMLImageElement>, 'src' | 'srcSet' | 'sizes'> {
+  image: ImageMeta;
+  sizes: string;
+}
+
+// AVIF and WebP ladders from the manifest, JPEG derivatives or the original for everything else
+export function Picture({ image, sizes, alt = '', ...imgProps }: PictureProps) {
+  const jpegSrcSet = getSrcSet(image, 'jpeg');
+
+  return (
+    <picture>
+      {PICTURE_FORMATS.map((format) => {
+        const srcSet = getSrcSet(image, format);
+        return srcSet && <source key={format} type={FORMAT_MIME_TYPES[format]} sizes={sizes} srcSet={srcSet} />;
+      })}
+      <img
+        // `sizes` goes first so the browser doesn't pick a candidate without it
+        sizes={jpegSrcSet ? sizes : undefined}
+        srcSet={jpegSrcSet || undefined}
+        src={getOriginalUrl(image)}
+        alt={alt}
+        {...imgProps}
+      />
+    </picture>
+  );
+}
@@ -0,0 +1,26 @@
+import styles from './ZoomControls.module.css';
+
+interface ZoomControlsProps {
+  zoom: number;
+  canZoomIn: boolean;
+  canZoomOut: boolean;
+  onZoomIn: () => void;
+  onZoomOut: () => void;
+  onReset: () => void;
+}
+
+export function ZoomControls({ zoom, canZoomIn, canZoomOut, onZoomIn, onZoomOut, onReset }: ZoomControlsProps) {
+  return (
+    <div className={styles.container}>
+      <button className={styles.button} onClick={onZoomOut} disabled={!canZoomOut} aria-label="отдалить">
+        −
+      </button>
+      <button className={`${styles.button} ${styles.reset}`} onClick={onReset} aria-label="сбросить масштаб">
+        {Math.round(zoom * 100)}%
+      </button>
+      <button className={styles.button} onClick={onZoomIn} disabled={!canZoomIn} aria-label="приблизить">
+        +
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { loadFavorites, mergeFavorites, parseFavoritesFile, serializeFavorites, toggleFavorite } from './favorites';
+
+describe('favorites', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('reads back an exported file', () => {
+    const text = serializeFavorites(['cat-3', 'cat-1']);
+
+    expect(JSON.parse(text)).toMatchObject({ format: 'tightpussies-favorites', version: 1, ids: ['cat-3', 'cat-1'] });
+    expect(parseFavoritesFile(text)).toEqual(['cat-3', 'cat-1']);
+  });
+
+  it('accepts a bare list of ids and drops repeats', () => {
+    expect(parseFavoritesFile('["cat-1", "cat-2", "cat-1"]')).toEqual(['cat-1', 'cat-2']);
+  });
+
+  it.each([
+    ['{"ids": ["cat-1"]}', 'Not a favorites file'],
+    ['{"format": "tightpussies-favorites", "version": 2, "ids": []}', 'version 2 is not supported'],
+    ['{"format": "tightpussies-favorites", "version": 1, "ids": ["cat-1", 7]}', 'no list of ids'],
+    ['cat-1', 'JSON'],
+  ])('rejects %s', (text, message) => {
+    expect(() => parseFavoritesFile(text)).toThrow(message);
+  });
+
+  it('toggles ids and appends imported ones after the existing', () => {
+    expect(toggleFavorite(['cat-1'], 'cat-2')).toEqual(['cat-1', 'cat-2']);
+    expect(toggleFavorite(['cat-1', 'cat-2'], 'cat-1')).toEqual(['cat-2']);
+    expect(mergeFavorites(['cat-2', 'cat-1'], ['cat-1', 'cat-3'])).toEqual(['cat-2', 'cat-1', 'cat-3']);
+  });
+
+  it('starts empty when storage holds garbage or is blocked', () => {
+    vi.stubGlobal('localStorage', { getItem: () => '{"cat-1": true}' });
+    expect(loadFavorites()).toEqual([]);
+    vi.stubGlobal('localStorage', {
+      getItem: () => {
+        throw new Error('SecurityError');
+      },
+    });
+    expect(loadFavorites()).toEqual([]);
+  });
+});
@@ -0,0 +1,79 @@
+// Favourites are kept in this browser only. There's no backend, so a JSON file
+// or a share link is how a collection moves to another device
+const STORAGE_KEY = 'tightpussies:favorites';
+const FILE_FORMAT = 'tightpussies-favorites';
+const FILE_VERSION = 1;
+
+export interface FavoritesFile {
+  format: typeof FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  ids: string[];
+}
+
+function isIdList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((id) => typeof id === 'string' && id !== '');
+}
+
+// Storage may be blocked (private mode, disabled cookies), favourites then last for the visit
+export function loadFavorites(): string[] {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return isIdList(stored) ? [...new Set(stored)] : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveFavorites(ids: string[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(ids));
+  } catch {
+    // Full or blocked storage, the in-memory list still works
+  }
+}
+
+// Changes made in other tabs
+export function subscribeFavorites(onChange: (ids: string[]) => void): () => void {
+  const handleStorage = (e: StorageEvent) => {
+    if (e.key === STORAGE_KEY) onChange(loadFavorites());
+  };
+  window.addEventListener('storage', handleStorage);
+  return () => window.removeEventListener('storage', handleStorage);
+}
+
+export function toggleFavorite(ids: string[], id: string): string[] {
+  return ids.includes(id) ? ids.filter((favorite) => favorite !== id) : [...ids, id];
+}
+
+// Imported ids go after the existing ones, in the order they came
+export function mergeFavorites(ids: string[], incoming: string[]): string[] {
+  return [...new Set([...ids, ...incoming])];
+}
+
+export function serializeFavorites(ids: string[]): string {
+  const file: FavoritesFile = {
+    format: FILE_FORMAT,
+    version: FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    ids,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+// Ids from an exported file. A bare array of ids is accepted too, for hand-written
+// lists. Ids that aren't in the manifest are kept, the collection may catch up later
+export function parseFavoritesFile(text: string): string[] {
+  const data: unknown = JSON.parse(text);
+  if (isIdList(data)) return [...new Set(data)];
+
+  if (typeof data !== 'object' || data === null || !('format' in data) || data.format !== FILE_FORMAT) {
+    throw new Error('Not a favorites file');
+  }
+  const { version, ids } = data as Partial<FavoritesFile>;
+  if (typeof version !== 'number' || version > FILE_VERSION) {
+    throw new Error(`Favorites file version ${String(version)} is not supported`);
+  }
+  if (!isIdList(ids)) throw new Error('Favorites file has no list of ids');
+  return [...new Set(ids)];
+}
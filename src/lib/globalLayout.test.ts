@@ -0,0 +1,132 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { ImageMeta } from '../types';
+import { computeGlobalLayout, findTileAt, getTileAnchor, getVisibleImages, resolveTileAnchor } from './globalLayout';
+import type { GlobalLayout, VisibleImage } from './globalLayout';
+import { DEFAULT_LAYOUT_CONFIG, getResponsiveLayoutConfig } from './layout';
+import type { ViewportInfo } from './layout';
+import { seededRandom, seededShuffle } from './seededRandom';
+import { buildUrl, readUrlState } from './urlState';
+
+function createImages(count: number, seed = 1): ImageMeta[] {
+  const random = seededRandom(seed);
+  return Array.from({ length: count }, (_, i) => {
+    const width = 600 + Math.round(random() * 900);
+    const height = 600 + Math.round(random() * 900);
+    return { id: `cat-${i + 1}`, width, height, aspectRatio: width / height };
+  });
+}
+
+function layoutFor(images: ImageMeta[], viewport: ViewportInfo) {
+  return computeGlobalLayout(images, getResponsiveLayoutConfig(DEFAULT_LAYOUT_CONFIG, images, viewport));
+}
+
+// The tiles of world copy (wx, wy), without those poking in from the neighbours
+function getCopyTiles(layout: GlobalLayout, wx: number, wy: number): VisibleImage[] {
+  const { worldSize } = layout.config;
+  return getVisibleImages(layout, wx * worldSize, wy * worldSize, worldSize, worldSize).filter(
+    ({ renderX, renderY }) =>
+      Math.floor(renderX / worldSize) === wx && Math.floor(renderY / worldSize) === wy
+  );
+}
+
+// Pairs of tiles within one gap of each other that show the same image
+function countTouchingRepeats(tiles: VisibleImage[], ids: string[], gap: number): number {
+  let count = 0;
+  tiles.forEach((a, i) => {
+    for (let j = i + 1; j < tiles.length; j++) {
+      const b = tiles[j];
+      if (
+        ids[i] === ids[j] &&
+        b.renderX <= a.renderX + a.image.width + gap &&
+        b.renderX + b.image.width >= a.renderX - gap &&
+        b.renderY <= a.renderY + a.image.height + gap &&
+        b.renderY + b.image.height >= a.renderY - gap
+      ) {
+        count++;
+      }
+    }
+  });
+  return count;
+}
+
+const PHONE: ViewportInfo = { width: 390, height: 844, devicePixelRatio: 3 };
+const DESKTOP: ViewportInfo = { width: 1920, height: 1080, devicePixelRatio: 1 };
+
+describe('view links', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('open on the same cat at another viewport size', () => {
+    const images = createImages(300);
+    const phone = layoutFor(images, PHONE);
+    const desktop = layoutFor(images, DESKTOP);
+    expect(phone.config.targetRowHeight).not.toBe(desktop.config.targetRowHeight);
+
+    vi.stubGlobal('window', { location: new URL('https://cats.example/') });
+    let checked = 0;
+    for (const [x, y] of [[700, 450], [1234, 2345], [phone.config.worldSize - 10, 30]]) {
+      const hit = findTileAt(phone, x, y);
+      if (!hit) continue;
+
+      const anchor = getTileAnchor(phone, x, y)!;
+      expect(anchor.imageId).toBe(hit.tile.image.id);
+      window.location.href = new URL(buildUrl({ at: { anchor, zoom: 1 } }), window.location.href).href;
+      const { at } = readUrlState();
+      if (!at || !('anchor' in at)) throw new Error(`No anchor in ${window.location.href}`);
+
+      const point = resolveTileAnchor(desktop, at.anchor, 0, 0)!;
+      expect(findTileAt(desktop, point.x, point.y)?.tile.image.id).toBe(hit.tile.image.id);
+      checked++;
+    }
+    expect(checked).toBeGreaterThan(0);
+  });
+});
+
+describe('shuffled world copies', () => {
+  const images = createImages(60);
+  const config = { ...DEFAULT_LAYOUT_CONFIG, worldSize: 4000, shuffle: true, seed: 7 };
+  const ids = (tiles: VisibleImage[]) => tiles.map((tile) => tile.image.id);
+  const wrap = (value: number) => ((value % config.worldSize) + config.worldSize) % config.worldSize;
+  const boxes = (tiles: VisibleImage[]) =>
+    tiles.map(({ image, renderX, renderY }) => [wrap(renderX), wrap(renderY), image.width, image.height]);
+
+  it('leaves the first copy as laid out, for the prerender', () => {
+    const layout = computeGlobalLayout(images, config);
+    expect(ids(getCopyTiles(layout, 0, 0)).sort()).toEqual(layout.placed.map((image) => image.id).sort());
+    for (const { image, renderX, renderY } of getCopyTiles(layout, 0, 0)) {
+      expect(layout.placed.find((placed) => placed.x === renderX && placed.y === renderY)?.id).toBe(image.id);
+    }
+  });
+
+  it('deals the same images onto the same tiles in a different order elsewhere', () => {
+    const layout = computeGlobalLayout(images, config);
+    const first = getCopyTiles(layout, 0, 0);
+    const other = getCopyTiles(layout, 1, -2);
+
+    expect(boxes(other)).toEqual(boxes(first));
+    expect(ids(other).sort()).toEqual(ids(first).sort());
+    expect(ids(other)).not.toEqual(ids(first));
+  });
+
+  it('deals every copy the same way for the same seed', () => {
+    const copy = ids(getCopyTiles(computeGlobalLayout(images, config), -3, 5));
+
+    expect(ids(getCopyTiles(computeGlobalLayout(images, config), -3, 5))).toEqual(copy);
+    expect(ids(getCopyTiles(computeGlobalLayout(images, { ...config, seed: 8 }), -3, 5))).not.toEqual(copy);
+  });
+
+  it('swaps images apart where the shuffle put a copy next to itself', () => {
+    // Twelve squares: every tile can take any image, and plenty of them touch
+    const squares = Array.from({ length: 12 }, (_, i) => ({ id: `cat-${i + 1}`, width: 800, height: 800, aspectRatio: 1 }));
+    const layout = computeGlobalLayout(squares, config);
+
+    for (const [wx, wy] of [[1, 0], [-2, 3]]) {
+      const tiles = getCopyTiles(layout, wx, wy);
+      const shuffled = seededShuffle(ids(tiles), seededRandom(wx * 31 + wy));
+
+      expect(countTouchingRepeats(tiles, shuffled, config.gap)).toBeGreaterThan(0);
+      expect(countTouchingRepeats(tiles, ids(tiles), config.gap)).toBe(0);
+    }
+  });
+});
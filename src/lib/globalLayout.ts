@@ -1,16 +1,81 @@
 import type { ImageMeta, PlacedImage } from '../types';
-
-// Virtual canvas size - large enough to feel infinite, wraps at edges
-export const WORLD_SIZE = 12000;
-const TARGET_ROW_HEIGHT = 320;
-const GAP = 30;
-
-let cachedLayout: PlacedImage[] | null = null;
-let cachedImageCount = 0;
+import { computeLayout, DEFAULT_LAYOUT_CONFIG } from './layout';
+import type { LayoutConfig } from './layout';
+import { seededRandom, seededShuffle } from './seededRandom';
 
 // Spatial index for fast lookup
 const CELL_SIZE = 400;
-let spatialIndex: Map<string, PlacedImage[]> | null = null;
+// How far around a point to look for the tile it belongs to (world px)
+const ANCHOR_SEARCH_RADIUS = 200;
+// Rotated tiles poke out of their bounding box, look a bit around a hit point (world px)
+const HIT_SEARCH_RADIUS = 60;
+// Layouts kept per cache, enough to switch back and forth between filters/configs
+const DEFAULT_CACHE_SIZE = 4;
+// Per-copy image assignments kept per layout, a viewport touches at most four copies
+const MAX_CACHED_COPIES = 16;
+// Swaps tried per tile when resolving an adjacent duplicate
+const DEDUPE_ATTEMPTS = 12;
+
+// Slot bookkeeping for shuffled layouts. Every world copy keeps the same tile
+// geometry, so seams line up, but gets its own assignment of images to tiles
+interface CopyVariation {
+  slotOf: Map<PlacedImage, number>;
+  // Slots grouped by tile aspect ratio; images only move within a group so
+  // object-fit: cover barely crops them
+  groups: number[][];
+  groupOf: number[];
+  neighbours: number[][];
+  // Image ids per slot, keyed by `wx,wy`
+  copies: Map<string, string[]>;
+}
+
+// A computed world together with its spatial index
+export interface GlobalLayout {
+  config: LayoutConfig;
+  placed: PlacedImage[];
+  spatialIndex: Map<string, PlacedImage[]>;
+  // Only for shuffled layouts, built on first use
+  variation: CopyVariation | null;
+}
+
+export type VisibleImage = { image: PlacedImage; renderX: number; renderY: number };
+
+// A point given by the tile it is on, as a share of the tile's size, so it can
+// be found again in another layout of the same images
+export interface TileAnchor {
+  imageId: string;
+  x: number;
+  y: number;
+}
+
+// Hashes are memoized per manifest array so lookups stay cheap while panning
+const manifestHashes = new WeakMap<ImageMeta[], string>();
+
+// FNV-1a over everything the layout depends on: order, ids and aspect ratios
+function hashManifest(allImages: ImageMeta[]): string {
+  let hash = manifestHashes.get(allImages);
+  if (hash) return hash;
+
+  let h = 0x811c9dc5;
+  for (const image of allImages) {
+    const entry = `${image.id}:${image.aspectRatio};`;
+    for (let i = 0; i < entry.length; i++) {
+      h ^= entry.charCodeAt(i);
+      h = Math.imul(h, 0x01000193);
+    }
+  }
+
+  hash = `${allImages.length}-${(h >>> 0).toString(36)}`;
+  manifestHashes.set(allImages, hash);
+  return hash;
+}
+
+function configKey(config: LayoutConfig): string {
+  return Object.entries(config)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+}
 
 function buildSpatialIndex(images: PlacedImage[]): Map<string, PlacedImage[]> {
   const index = new Map<string, PlacedImage[]>();
@@ -35,125 +100,183 @@ function buildSpatialIndex(images: PlacedImage[]): Map<string, PlacedImage[]> {
   return index;
 }
 
-export function computeGlobalLayout(allImages: ImageMeta[]): PlacedImage[] {
-  if (cachedLayout && cachedImageCount === allImages.length) {
-    return cachedLayout;
+export function computeGlobalLayout(
+  allImages: ImageMeta[],
+  config: LayoutConfig = DEFAULT_LAYOUT_CONFIG
+): GlobalLayout {
+  const placed = computeLayout(allImages, config);
+  return { config, placed, spatialIndex: buildSpatialIndex(placed), variation: null };
+}
+
+// Tiles touching a tile (within one gap), i.e. its row and column neighbours
+function findTouchingSlots(layout: GlobalLayout, slotOf: Map<PlacedImage, number>, slot: number): number[] {
+  const img = layout.placed[slot];
+  const reach = layout.config.gap + 1;
+  const touching = new Set<number>();
+
+  const minCellX = Math.floor((img.x - reach) / CELL_SIZE);
+  const maxCellX = Math.floor((img.x + img.width + reach) / CELL_SIZE);
+  const minCellY = Math.floor((img.y - reach) / CELL_SIZE);
+  const maxCellY = Math.floor((img.y + img.height + reach) / CELL_SIZE);
+
+  for (let cx = minCellX; cx <= maxCellX; cx++) {
+    for (let cy = minCellY; cy <= maxCellY; cy++) {
+      for (const other of layout.spatialIndex.get(`${cx},${cy}`) ?? []) {
+        if (
+          other === img ||
+          other.x > img.x + img.width + reach ||
+          other.x + other.width < img.x - reach ||
+          other.y > img.y + img.height + reach ||
+          other.y + other.height < img.y - reach
+        ) {
+          continue;
+        }
+        touching.add(slotOf.get(other)!);
+      }
+    }
   }
 
-  const placedImages: PlacedImage[] = [];
-  let currentY = 0;
-  let imageIndex = 0;
+  return [...touching];
+}
 
-  // Fill the entire world with rows
-  while (currentY < WORLD_SIZE) {
-    // Collect images for this row - track ONLY natural widths (no gaps)
-    const rowImages: { image: ImageMeta; naturalWidth: number }[] = [];
-    let totalNaturalWidth = 0;
+function getVariation(layout: GlobalLayout): CopyVariation {
+  if (layout.variation) return layout.variation;
+
+  const slotOf = new Map(layout.placed.map((img, slot) => [img, slot]));
+  const groupIndex = new Map<number, number>();
+  const groups: number[][] = [];
+  const groupOf: number[] = [];
+
+  layout.placed.forEach((img, slot) => {
+    // Quarter-octave aspect classes
+    const aspectClass = Math.round(Math.log2(img.width / img.height) * 4);
+    let group = groupIndex.get(aspectClass);
+    if (group === undefined) {
+      group = groups.length;
+      groupIndex.set(aspectClass, group);
+      groups.push([]);
+    }
+    groups[group].push(slot);
+    groupOf.push(group);
+  });
 
-    // Keep adding images until natural width (plus gaps) would exceed world size
-    while (imageIndex < allImages.length * 100) { // Safety limit
-      const image = allImages[imageIndex % allImages.length];
-      const naturalWidth = TARGET_ROW_HEIGHT * image.aspectRatio;
+  const neighbours = layout.placed.map((_, slot) => findTouchingSlots(layout, slotOf, slot));
 
-      // Calculate what total width would be if we add this image
-      const gapsIfAdded = rowImages.length * GAP; // N images = N-1 gaps, but we're adding one more so N gaps
-      const widthIfAdded = totalNaturalWidth + naturalWidth + gapsIfAdded;
+  layout.variation = { slotOf, groups, groupOf, neighbours, copies: new Map() };
+  return layout.variation;
+}
 
-      // If adding this image would exceed, and we have at least 2 images, stop
-      if (widthIfAdded > WORLD_SIZE && rowImages.length >= 2) {
-        break;
-      }
+// Image ids for each slot of world copy (wx, wy). Copy (0, 0) keeps the
+// computed layout as is, so it matches the prerendered first paint
+function getCopyIds(layout: GlobalLayout, wx: number, wy: number): string[] {
+  const variation = getVariation(layout);
+  const key = `${wx},${wy}`;
 
-      rowImages.push({ image, naturalWidth });
-      totalNaturalWidth += naturalWidth;
-      imageIndex++;
-    }
+  const cached = variation.copies.get(key);
+  if (cached) return cached;
 
-    if (rowImages.length === 0) break;
+  const ids = layout.placed.map((img) => img.id);
 
-    // Calculate scale to make row fit EXACTLY
-    const numGaps = rowImages.length - 1;
-    const availableForImages = WORLD_SIZE - (numGaps * GAP);
-    const scale = availableForImages / totalNaturalWidth;
-    let rowHeight = Math.round(TARGET_ROW_HEIGHT * scale);
+  if (wx !== 0 || wy !== 0) {
+    const random = seededRandom(
+      (Math.imul(layout.config.seed, 73856093) ^ Math.imul(wx, 19349663) ^ Math.imul(wy, 83492791)) >>> 0
+    );
 
-    // If this row would extend beyond WORLD_SIZE (minus GAP for world wrap), scale it to fit
-    const remainingHeight = WORLD_SIZE - currentY - GAP; // Leave GAP at the end for world wrap
-    if (rowHeight > remainingHeight) {
-      // If remaining space is too small, skip this row
-      if (remainingHeight < 100) {
-        break;
-      }
-      rowHeight = remainingHeight;
+    for (const group of variation.groups) {
+      const shuffled = seededShuffle(group.map((slot) => ids[slot]), random);
+      group.forEach((slot, i) => { ids[slot] = shuffled[i]; });
     }
 
-    // Place images in row - they MUST fill exactly WORLD_SIZE
-    let currentX = 0;
-    for (let i = 0; i < rowImages.length; i++) {
-      const item = rowImages[i];
-
-      // For last image, calculate width to fill remaining space (minus GAP for world wrap)
-      let width: number;
-      if (i === rowImages.length - 1) {
-        width = WORLD_SIZE - currentX - GAP;
-      } else {
-        width = Math.round(item.naturalWidth * scale);
-      }
+    // Collections smaller than the world repeat, so break up identical neighbours
+    const hasDuplicateNeighbour = (slot: number) =>
+      variation.neighbours[slot].some((other) => ids[other] === ids[slot]);
 
-      placedImages.push({
-        id: item.image.id,
-        x: currentX,
-        y: currentY,
-        width,
-        height: rowHeight,
-      });
+    for (let slot = 0; slot < ids.length; slot++) {
+      if (!hasDuplicateNeighbour(slot)) continue;
 
-      currentX += width + GAP;
+      const group = variation.groups[variation.groupOf[slot]];
+      for (let attempt = 0; attempt < DEDUPE_ATTEMPTS; attempt++) {
+        const other = group[Math.floor(random() * group.length)];
+        if (other === slot) continue;
+
+        [ids[slot], ids[other]] = [ids[other], ids[slot]];
+        if (!hasDuplicateNeighbour(slot) && !hasDuplicateNeighbour(other)) break;
+        [ids[slot], ids[other]] = [ids[other], ids[slot]];
+      }
     }
+  }
 
-    currentY += rowHeight + GAP;
+  variation.copies.set(key, ids);
+  if (variation.copies.size > MAX_CACHED_COPIES) {
+    variation.copies.delete(variation.copies.keys().next().value!);
   }
+  return ids;
+}
 
-  cachedLayout = placedImages;
-  cachedImageCount = allImages.length;
-  spatialIndex = buildSpatialIndex(placedImages);
+// The tile as shown in world copy (wx, wy)
+function placeInCopy(layout: GlobalLayout, img: PlacedImage, wx: number, wy: number): PlacedImage {
+  if (!layout.config.shuffle) return img;
 
-  return placedImages;
+  const id = getCopyIds(layout, wx, wy)[getVariation(layout).slotOf.get(img)!];
+  return id === img.id ? img : { ...img, id };
+}
+
+// Independent LRU cache of layouts keyed by manifest content and layout
+// config, so each canvas (or test) owns its layouts and an equal manifest
+// or config never triggers a recompute
+export function createLayoutCache(maxEntries = DEFAULT_CACHE_SIZE) {
+  const entries = new Map<string, GlobalLayout>();
+
+  return function getLayout(allImages: ImageMeta[], config: LayoutConfig = DEFAULT_LAYOUT_CONFIG): GlobalLayout {
+    const key = `${hashManifest(allImages)}|${configKey(config)}`;
+
+    const cached = entries.get(key);
+    if (cached) {
+      // Refresh recency
+      entries.delete(key);
+      entries.set(key, cached);
+      return cached;
+    }
+
+    const layout = computeGlobalLayout(allImages, config);
+    entries.set(key, layout);
+    if (entries.size > maxEntries) {
+      entries.delete(entries.keys().next().value!);
+    }
+    return layout;
+  };
 }
 
 export function getVisibleImages(
+  layout: GlobalLayout,
   viewX: number,
   viewY: number,
   viewWidth: number,
-  viewHeight: number,
-  allImages: ImageMeta[]
-): { image: PlacedImage; renderX: number; renderY: number }[] {
-  const layout = computeGlobalLayout(allImages);
-
-  if (!spatialIndex) {
-    spatialIndex = buildSpatialIndex(layout);
-  }
+  viewHeight: number
+): VisibleImage[] {
+  const { spatialIndex } = layout;
+  const { worldSize } = layout.config;
 
-  const results: { image: PlacedImage; renderX: number; renderY: number }[] = [];
+  const results: VisibleImage[] = [];
   const seenKeys = new Set<string>();
 
   // Calculate which world copies we need to check
   // For negative coordinates, we need to look at world copies to the left/above
-  const startWorldX = Math.floor(viewX / WORLD_SIZE);
-  const endWorldX = Math.floor((viewX + viewWidth) / WORLD_SIZE);
-  const startWorldY = Math.floor(viewY / WORLD_SIZE);
-  const endWorldY = Math.floor((viewY + viewHeight) / WORLD_SIZE);
+  const startWorldX = Math.floor(viewX / worldSize);
+  const endWorldX = Math.floor((viewX + viewWidth) / worldSize);
+  const startWorldY = Math.floor(viewY / worldSize);
+  const endWorldY = Math.floor((viewY + viewHeight) / worldSize);
 
   for (let wy = startWorldY; wy <= endWorldY; wy++) {
     for (let wx = startWorldX; wx <= endWorldX; wx++) {
-      const worldOffsetX = wx * WORLD_SIZE;
-      const worldOffsetY = wy * WORLD_SIZE;
+      const worldOffsetX = wx * worldSize;
+      const worldOffsetY = wy * worldSize;
 
       // What part of this world copy is visible?
       const localMinX = Math.max(0, viewX - worldOffsetX);
-      const localMaxX = Math.min(WORLD_SIZE, viewX + viewWidth - worldOffsetX);
+      const localMaxX = Math.min(worldSize, viewX + viewWidth - worldOffsetX);
       const localMinY = Math.max(0, viewY - worldOffsetY);
-      const localMaxY = Math.min(WORLD_SIZE, viewY + viewHeight - worldOffsetY);
+      const localMaxY = Math.min(worldSize, viewY + viewHeight - worldOffsetY);
 
       if (localMinX >= localMaxX || localMinY >= localMaxY) continue;
 
@@ -188,7 +311,7 @@ export function getVisibleImages(
             if (seenKeys.has(key)) continue;
             seenKeys.add(key);
 
-            results.push({ image: img, renderX, renderY });
+            results.push({ image: placeInCopy(layout, img, wx, wy), renderX, renderY });
           }
         }
       }
@@ -197,3 +320,167 @@ export function getVisibleImages(
 
   return results;
 }
+
+// Find the copy of an image (across wrapped worlds) closest to a world point
+export function findNearestPlacement(
+  layout: GlobalLayout,
+  imageId: string,
+  worldX: number,
+  worldY: number
+): VisibleImage | null {
+  const { worldSize } = layout.config;
+
+  let nearest: VisibleImage | null = null;
+  let nearestDistance = Infinity;
+
+  // Shuffled copies place the image differently, so check the copy holding
+  // the point and the ones around it
+  if (layout.config.shuffle) {
+    const pointWorldX = Math.floor(worldX / worldSize);
+    const pointWorldY = Math.floor(worldY / worldSize);
+
+    for (let wy = pointWorldY - 1; wy <= pointWorldY + 1; wy++) {
+      for (let wx = pointWorldX - 1; wx <= pointWorldX + 1; wx++) {
+        const ids = getCopyIds(layout, wx, wy);
+        layout.placed.forEach((img, slot) => {
+          if (ids[slot] !== imageId) return;
+
+          const renderX = img.x + wx * worldSize;
+          const renderY = img.y + wy * worldSize;
+          const distance = Math.hypot(renderX + img.width / 2 - worldX, renderY + img.height / 2 - worldY);
+          if (distance < nearestDistance) {
+            nearest = { image: placeInCopy(layout, img, wx, wy), renderX, renderY };
+            nearestDistance = distance;
+          }
+        });
+      }
+    }
+
+    return nearest;
+  }
+
+  for (const img of layout.placed) {
+    if (img.id !== imageId) continue;
+
+    const centerX = img.x + img.width / 2;
+    const centerY = img.y + img.height / 2;
+    // Pick the world copy whose centre lies closest to the point
+    const renderX = img.x + Math.round((worldX - centerX) / worldSize) * worldSize;
+    const renderY = img.y + Math.round((worldY - centerY) / worldSize) * worldSize;
+    const distance = Math.hypot(renderX + img.width / 2 - worldX, renderY + img.height / 2 - worldY);
+
+    if (distance < nearestDistance) {
+      nearest = { image: img, renderX, renderY };
+      nearestDistance = distance;
+    }
+  }
+
+  return nearest;
+}
+
+// The tile drawn at a world point, topmost first, with the point in the tile's
+// own frame: (0, 0) is its top left corner before rotation. Mirrors the DOM
+// tiles, which rotate around their centre and stack by zIndex, then order
+export function findTileAt(
+  layout: GlobalLayout,
+  worldX: number,
+  worldY: number
+): { tile: VisibleImage; x: number; y: number } | null {
+  const candidates = getVisibleImages(
+    layout,
+    worldX - HIT_SEARCH_RADIUS,
+    worldY - HIT_SEARCH_RADIUS,
+    HIT_SEARCH_RADIUS * 2,
+    HIT_SEARCH_RADIUS * 2
+  );
+
+  let hit: { tile: VisibleImage; x: number; y: number } | null = null;
+  let hitZIndex = -Infinity;
+  for (const tile of candidates) {
+    const { width, height, rotation = 0, zIndex = 0 } = tile.image;
+    // Later tiles win ties, like later DOM siblings
+    if (zIndex < hitZIndex) continue;
+
+    const angle = (rotation * Math.PI) / 180;
+    const dx = worldX - (tile.renderX + width / 2);
+    const dy = worldY - (tile.renderY + height / 2);
+    const x = dx * Math.cos(angle) + dy * Math.sin(angle) + width / 2;
+    const y = -dx * Math.sin(angle) + dy * Math.cos(angle) + height / 2;
+    if (x >= 0 && x <= width && y >= 0 && y <= height) {
+      hit = { tile, x, y };
+      hitZIndex = zIndex;
+    }
+  }
+
+  return hit;
+}
+
+// The tile whose centre is closest to a world point, within ANCHOR_SEARCH_RADIUS
+function findAnchorTile(layout: GlobalLayout, worldX: number, worldY: number): VisibleImage | null {
+  const candidates = getVisibleImages(
+    layout,
+    worldX - ANCHOR_SEARCH_RADIUS,
+    worldY - ANCHOR_SEARCH_RADIUS,
+    ANCHOR_SEARCH_RADIUS * 2,
+    ANCHOR_SEARCH_RADIUS * 2
+  );
+
+  let anchor: VisibleImage | null = null;
+  let anchorDistance = Infinity;
+  for (const candidate of candidates) {
+    const distance = Math.hypot(
+      candidate.renderX + candidate.image.width / 2 - worldX,
+      candidate.renderY + candidate.image.height / 2 - worldY
+    );
+    if (distance < anchorDistance) {
+      anchor = candidate;
+      anchorDistance = distance;
+    }
+  }
+  return anchor;
+}
+
+// A world point relative to the tile it is on, null in an empty stretch of the world
+export function getTileAnchor(layout: GlobalLayout, worldX: number, worldY: number): TileAnchor | null {
+  const tile = findAnchorTile(layout, worldX, worldY);
+  if (!tile) return null;
+
+  return {
+    imageId: tile.image.id,
+    x: (worldX - tile.renderX) / tile.image.width,
+    y: (worldY - tile.renderY) / tile.image.height,
+  };
+}
+
+// The world point of an anchor, in the copy of its tile closest to (nearX, nearY).
+// Null when the layout doesn't have that image
+export function resolveTileAnchor(
+  layout: GlobalLayout,
+  anchor: TileAnchor,
+  nearX: number,
+  nearY: number
+): { x: number; y: number } | null {
+  const target = findNearestPlacement(layout, anchor.imageId, nearX, nearY);
+  if (!target) return null;
+
+  return {
+    x: target.renderX + anchor.x * target.image.width,
+    y: target.renderY + anchor.y * target.image.height,
+  };
+}
+
+// Map a world point onto another layout of the same images: the point keeps
+// its relative position inside the tile it is on, so the same cat stays put
+// when the layout is recomputed (e.g. after a resize)
+export function mapPointBetweenLayouts(
+  from: GlobalLayout,
+  to: GlobalLayout,
+  worldX: number,
+  worldY: number
+): { x: number; y: number } {
+  const ratio = to.config.worldSize / from.config.worldSize;
+  const fallback = { x: worldX * ratio, y: worldY * ratio };
+
+  const anchor = getTileAnchor(from, worldX, worldY);
+  return (anchor && resolveTileAnchor(to, anchor, fallback.x, fallback.y)) ?? fallback;
+}
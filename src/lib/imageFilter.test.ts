@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import type { ImageMeta } from '../types';
+import { EMPTY_FILTER, collectTags, filterImages, getFilterKey, isFilterActive } from './imageFilter';
+
+function cat(id: string, fields: Partial<ImageMeta> = {}): ImageMeta {
+  return { id, width: 100, height: 100, aspectRatio: 1, ...fields };
+}
+
+const IMAGES = [
+  cat('cat-1', { caption: 'Рыжий котёнок в коробке', tags: ['рыжий', 'котёнок'] }),
+  cat('cat-2', { caption: 'Спит на батарее', credit: 'Маша', tags: ['спит'] }),
+  cat('cat-3', { tags: ['рыжий', 'спит'] }),
+  cat('cat-4'),
+];
+
+function ids(images: ImageMeta[]): string[] {
+  return images.map((image) => image.id);
+}
+
+describe('filterImages', () => {
+  it('shows everything without a filter', () => {
+    expect(filterImages(IMAGES, EMPTY_FILTER)).toBe(IMAGES);
+    expect(filterImages(IMAGES, { query: '   ', tags: [] })).toBe(IMAGES);
+  });
+
+  it('needs every word somewhere in the caption, credit, tags or id', () => {
+    expect(ids(filterImages(IMAGES, { query: 'КОРОБКЕ', tags: [] }))).toEqual(['cat-1']);
+    expect(ids(filterImages(IMAGES, { query: 'маша батарее', tags: [] }))).toEqual(['cat-2']);
+    expect(ids(filterImages(IMAGES, { query: 'рыжий спит', tags: [] }))).toEqual(['cat-3']);
+    expect(ids(filterImages(IMAGES, { query: 'cat-4', tags: [] }))).toEqual(['cat-4']);
+    expect(ids(filterImages(IMAGES, { query: 'рыжий собака', tags: [] }))).toEqual([]);
+  });
+
+  it('matches «е» and «ё» either way, and words typed as #tags', () => {
+    expect(ids(filterImages(IMAGES, { query: 'котенок', tags: [] }))).toEqual(['cat-1']);
+    expect(ids(filterImages([cat('cat-5', { caption: 'Ежик' })], { query: 'ёжик', tags: [] }))).toEqual(['cat-5']);
+    expect(ids(filterImages(IMAGES, { query: '#спит', tags: [] }))).toEqual(['cat-2', 'cat-3']);
+  });
+
+  it('needs every chosen tag as a whole tag', () => {
+    expect(ids(filterImages(IMAGES, { query: '', tags: ['рыжий'] }))).toEqual(['cat-1', 'cat-3']);
+    expect(ids(filterImages(IMAGES, { query: '', tags: ['рыжий', 'спит'] }))).toEqual(['cat-3']);
+    expect(ids(filterImages(IMAGES, { query: '', tags: ['рыж'] }))).toEqual([]);
+    expect(ids(filterImages(IMAGES, { query: 'коробке', tags: ['спит'] }))).toEqual([]);
+  });
+});
+
+describe('filter helpers', () => {
+  it('keys filters regardless of case, «ё» and tag order', () => {
+    expect(getFilterKey({ query: ' Котёнок ', tags: ['спит', 'рыжий'] })).toBe(
+      getFilterKey({ query: 'котенок', tags: ['рыжий', 'спит'] })
+    );
+    expect(isFilterActive(EMPTY_FILTER)).toBe(false);
+    expect(isFilterActive({ query: '', tags: ['спит'] })).toBe(true);
+  });
+
+  it('counts tags, most used first', () => {
+    expect(collectTags(IMAGES)).toEqual([
+      { tag: 'рыжий', count: 2 },
+      { tag: 'спит', count: 2 },
+      { tag: 'котёнок', count: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,58 @@
+import type { ImageMeta } from '../types';
+
+export interface ImageFilter {
+  // Free text, every word has to appear in the caption, tags, credit or id
+  query: string;
+  // Every one of these tags has to be on the image
+  tags: string[];
+}
+
+export const EMPTY_FILTER: ImageFilter = { query: '', tags: [] };
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+// Case-insensitive, and «ё» matches «е» since people rarely type it
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/ё/g, 'е');
+}
+
+export function isFilterActive(filter: ImageFilter): boolean {
+  return filter.query.trim() !== '' || filter.tags.length > 0;
+}
+
+// Stable string for comparing filters and keying layout transitions
+export function getFilterKey(filter: ImageFilter): string {
+  return `${normalize(filter.query.trim())}|${[...filter.tags].sort().join(',')}`;
+}
+
+export function filterImages(images: ImageMeta[], filter: ImageFilter): ImageMeta[] {
+  if (!isFilterActive(filter)) return images;
+
+  const words = normalize(filter.query).split(/\s+/).filter(Boolean);
+  const tags = filter.tags.map(normalize);
+
+  return images.filter((image) => {
+    const imageTags = (image.tags ?? []).map(normalize);
+    if (!tags.every((tag) => imageTags.includes(tag))) return false;
+
+    const text = normalize([image.id, image.caption, image.credit, ...imageTags].filter(Boolean).join(' '));
+    return words.every((word) => text.includes(word.replace(/^#/, '')));
+  });
+}
+
+// Tags across the collection, most used first
+export function collectTags(images: ImageMeta[]): TagCount[] {
+  const counts = new Map<string, number>();
+  for (const image of images) {
+    for (const tag of image.tags ?? []) {
+      counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+  }
+
+  return [...counts]
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag, 'ru'));
+}
@@ -0,0 +1,67 @@
+import type { ImageMetadata } from '../types';
+
+const METADATA_KEYS = ['caption', 'postUrl', 'date', 'credit', 'tags'] as const satisfies readonly (keyof ImageMetadata)[];
+
+const POST_URL_PATTERN = /^https:\/\/t\.me\/[\w/]+$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+export interface MetadataParseResult {
+  metadata: ImageMetadata;
+  // Human-readable problems, invalid fields are left out of `metadata`
+  errors: string[];
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim() !== '';
+}
+
+// Validates a sidecar object field by field, so one typo doesn't drop the whole caption
+export function parseImageMetadata(raw: unknown): MetadataParseResult {
+  const metadata: ImageMetadata = {};
+  const errors: string[] = [];
+
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { metadata, errors: ['expected an object'] };
+  }
+
+  const record = raw as Record<string, unknown>;
+
+  for (const key of Object.keys(record)) {
+    if (!(METADATA_KEYS as readonly string[]).includes(key)) {
+      errors.push(`unknown field "${key}", expected one of ${METADATA_KEYS.join(', ')}`);
+    }
+  }
+
+  const { caption, postUrl, date, credit, tags } = record;
+
+  if (caption !== undefined) {
+    if (isNonEmptyString(caption)) metadata.caption = caption.trim();
+    else errors.push('"caption" must be a non-empty string');
+  }
+
+  if (postUrl !== undefined) {
+    if (typeof postUrl === 'string' && POST_URL_PATTERN.test(postUrl)) metadata.postUrl = postUrl;
+    else errors.push(`"postUrl" must look like https://t.me/<channel>/<message>, got ${JSON.stringify(postUrl)}`);
+  }
+
+  if (date !== undefined) {
+    if (typeof date === 'string' && DATE_PATTERN.test(date) && !Number.isNaN(Date.parse(date))) metadata.date = date;
+    else errors.push(`"date" must be YYYY-MM-DD or an ISO timestamp, got ${JSON.stringify(date)}`);
+  }
+
+  if (credit !== undefined) {
+    if (isNonEmptyString(credit)) metadata.credit = credit.trim();
+    else errors.push('"credit" must be a non-empty string');
+  }
+
+  if (tags !== undefined) {
+    if (Array.isArray(tags) && tags.every(isNonEmptyString)) {
+      // Lowercase and deduplicate so filtering doesn't depend on spelling
+      metadata.tags = [...new Set(tags.map((tag) => tag.trim().toLowerCase()))];
+    } else {
+      errors.push('"tags" must be an array of non-empty strings');
+    }
+  }
+
+  return { metadata, errors };
+}
@@ -0,0 +1,21 @@
+import { FORMAT_EXTENSIONS } from './formats';
+import { getLadderWidths } from './ladder';
+import type { ImageUrlProvider } from './types';
+
+// Originals uploaded to `<folder>/<id>.jpg`, resized and converted on the fly
+export function createCloudinaryProvider(cloudName: string, folder: string): ImageUrlProvider {
+  const baseUrl = `https://res.cloudinary.com/${cloudName}/image/upload`;
+
+  return {
+    name: 'cloudinary',
+    getOriginalUrl(image) {
+      return `${baseUrl}/${folder}/${image.id}.jpg`;
+    },
+    getWidths(image) {
+      return getLadderWidths(image);
+    },
+    getResizedUrl(image, width, format) {
+      return `${baseUrl}/c_limit,w_${width},f_${FORMAT_EXTENSIONS[format]},q_auto/${folder}/${image.id}.jpg`;
+    },
+  };
+}
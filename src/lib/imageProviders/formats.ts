@@ -0,0 +1,17 @@
+import type { ImageFormat } from '../../types';
+
+// `<picture>` sources in order of preference, JPEG is the fallback `<img>`
+export const PICTURE_FORMATS = ['avif', 'webp'] as const satisfies readonly ImageFormat[];
+
+export const FORMAT_MIME_TYPES: Record<ImageFormat, string> = {
+  avif: 'image/avif',
+  webp: 'image/webp',
+  jpeg: 'image/jpeg',
+};
+
+// File extensions, also what Cloudinary and imgproxy expect as the format name
+export const FORMAT_EXTENSIONS: Record<ImageFormat, string> = {
+  avif: 'avif',
+  webp: 'webp',
+  jpeg: 'jpg',
+};
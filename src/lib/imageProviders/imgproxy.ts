@@ -0,0 +1,40 @@
+import { FORMAT_EXTENSIONS } from './formats';
+import { getLadderWidths } from './ladder';
+import type { ImageUrlProvider } from './types';
+
+export interface ImgproxyOptions {
+  // Where imgproxy is served, e.g. `https://img.example.com`
+  baseUrl: string;
+  // Where imgproxy fetches originals from, e.g. `https://example.com/images` or `s3://bucket/cats`
+  sourceUrl: string;
+}
+
+const encoder = new TextEncoder();
+
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+}
+
+// Unsigned processing URLs (`/insecure/…`, see https://docs.imgproxy.net/usage/processing).
+// Anything the bundle could sign with, anyone could, so the server does the
+// limiting: IMGPROXY_ALLOWED_SOURCES, IMGPROXY_MAX_SRC_RESOLUTION and a cache in front
+export function createImgproxyProvider({ baseUrl, sourceUrl }: ImgproxyOptions): ImageUrlProvider {
+  // `processing` is empty or starts with a slash
+  const buildUrl = (id: string, processing: string, extension: string) => {
+    const source = toBase64Url(encoder.encode(`${sourceUrl}/${id}.jpg`));
+    return `${baseUrl}/insecure${processing}/${source}.${extension}`;
+  };
+
+  return {
+    name: 'imgproxy',
+    getOriginalUrl(image) {
+      return buildUrl(image.id, '', 'jpg');
+    },
+    getWidths(image) {
+      return getLadderWidths(image);
+    },
+    getResizedUrl(image, width, format) {
+      return buildUrl(image.id, `/rs:fit:${width}:0`, FORMAT_EXTENSIONS[format]);
+    },
+  };
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { createImageUrlProvider, getLadderWidths, getSrcSet } from '.';
+import type { ProviderImage } from '.';
+
+const CAT: ProviderImage = {
+  id: 'cat-1',
+  width: 960,
+  hash: '8d951770aa3f4fea',
+  derivatives: {
+    webp: { 250: 'cat-1-250w.b60e0529.webp', 500: 'cat-1-500w.ee75117a.webp', 960: 'cat-1-960w.0bd2525c.webp' },
+  },
+};
+
+describe('image providers', () => {
+  it('serves the derivatives the manifest lists from local files', () => {
+    const provider = createImageUrlProvider({});
+
+    expect(provider.name).toBe('local');
+    expect(provider.getWidths(CAT, 'webp')).toEqual([250, 500, 960]);
+    expect(provider.getWidths(CAT, 'avif')).toEqual([]);
+    expect(getSrcSet(provider, CAT, 'webp')).toBe(
+      '/images/thumbs/cat-1-250w.b60e0529.webp 250w, /images/thumbs/cat-1-500w.ee75117a.webp 500w, /images/thumbs/cat-1-960w.0bd2525c.webp 960w'
+    );
+    expect(provider.getResizedUrl(CAT, 1280, 'webp')).toBe('/images/cat-1.jpg');
+  });
+
+  it('collapses ladder steps above the source width', () => {
+    expect(getLadderWidths({ width: 960 })).toEqual([250, 500, 960]);
+    expect(getLadderWidths({ width: 200 })).toEqual([200]);
+  });
+
+  it('builds unsigned imgproxy URLs with the source in base64url', () => {
+    const provider = createImageUrlProvider({
+      VITE_IMAGE_PROVIDER: 'imgproxy',
+      VITE_IMGPROXY_URL: 'https://img.example.com',
+      VITE_IMGPROXY_SOURCE_URL: 'https://example.com/images',
+    });
+
+    expect(provider.getResizedUrl(CAT, 500, 'avif')).toBe(
+      'https://img.example.com/insecure/rs:fit:500:0/aHR0cHM6Ly9leGFtcGxlLmNvbS9pbWFnZXMvY2F0LTEuanBn.avif'
+    );
+    expect(provider.getOriginalUrl(CAT)).toBe(
+      'https://img.example.com/insecure/aHR0cHM6Ly9leGFtcGxlLmNvbS9pbWFnZXMvY2F0LTEuanBn.jpg'
+    );
+    expect(provider.getWidths(CAT, 'jpeg')).toEqual([250, 500, 960]);
+  });
+
+  it('encodes ids outside ASCII for imgproxy as UTF-8', () => {
+    const provider = createImageUrlProvider({
+      VITE_IMAGE_PROVIDER: 'imgproxy',
+      VITE_IMGPROXY_URL: 'https://img.example.com',
+      VITE_IMGPROXY_SOURCE_URL: 's3://cats',
+    });
+
+    expect(provider.getOriginalUrl({ ...CAT, id: 'aé?' })).toBe('https://img.example.com/insecure/czM6Ly9jYXRzL2HDqT8uanBn.jpg');
+  });
+
+  it.each(['VITE_IMGPROXY_KEY', 'VITE_IMGPROXY_SALT'])('refuses to put %s into the bundle', (name) => {
+    expect(() =>
+      createImageUrlProvider({
+        VITE_IMAGE_PROVIDER: 'imgproxy',
+        VITE_IMGPROXY_URL: 'https://img.example.com',
+        VITE_IMGPROXY_SOURCE_URL: 's3://cats',
+        [name]: '943b421c9eb07c83',
+      })
+    ).toThrow(name);
+  });
+
+  it('fills every template placeholder and leaves unknown ones', () => {
+    const provider = createImageUrlProvider({
+      VITE_IMAGE_PROVIDER: 'template',
+      VITE_IMAGE_URL_TEMPLATE: 'https://cdn.example.com/{id}.{ext}?w={width}&fm={format}&v={hash}&x={unknown}',
+      VITE_IMAGE_ORIGINAL_URL_TEMPLATE: 'https://cdn.example.com/{id}.{ext}?w={width}',
+    });
+
+    expect(provider.getResizedUrl(CAT, 500, 'jpeg')).toBe(
+      'https://cdn.example.com/cat-1.jpg?w=500&fm=jpeg&v=8d951770aa3f4fea&x={unknown}'
+    );
+    expect(provider.getOriginalUrl(CAT)).toBe('https://cdn.example.com/cat-1.jpg?w=960');
+  });
+
+  it('picks Cloudinary for production builds with a cloud name, local in dev', () => {
+    expect(createImageUrlProvider({ VITE_CLOUDINARY_CLOUD_NAME: 'demo' }).getResizedUrl(CAT, 500, 'webp')).toBe(
+      'https://res.cloudinary.com/demo/image/upload/c_limit,w_500,f_webp,q_auto/infinite-cats/cat-1.jpg'
+    );
+    expect(createImageUrlProvider({ VITE_CLOUDINARY_CLOUD_NAME: 'demo', DEV: true }).name).toBe('local');
+  });
+
+  it('rejects unknown providers and missing settings', () => {
+    expect(() => createImageUrlProvider({ VITE_IMAGE_PROVIDER: 'imgur' })).toThrow('Unknown VITE_IMAGE_PROVIDER');
+    expect(() => createImageUrlProvider({ VITE_IMAGE_PROVIDER: 'template' })).toThrow('VITE_IMAGE_URL_TEMPLATE');
+  });
+});
@@ -0,0 +1,80 @@
+// Image URL providers shared by the app and the prerender script.
+// Must stay free of DOM and Vite APIs, the env is passed in.
+import type { ImageFormat } from '../../types';
+import { createCloudinaryProvider } from './cloudinary';
+import { createImgproxyProvider } from './imgproxy';
+import { createLocalProvider } from './local';
+import { createTemplateProvider } from './template';
+import type { ImageProviderEnv, ImageProviderName, ImageUrlProvider, ProviderImage } from './types';
+
+export type { ImageProviderEnv, ImageProviderName, ImageUrlProvider, ProviderImage } from './types';
+export { FORMAT_EXTENSIONS, FORMAT_MIME_TYPES, PICTURE_FORMATS } from './formats';
+export { DEFAULT_WIDTH_LADDER, getLadderWidths } from './ladder';
+
+const PROVIDER_NAMES: ImageProviderName[] = ['local', 'cloudinary', 'imgproxy', 'template'];
+
+const DEFAULT_CLOUDINARY_FOLDER = 'infinite-cats';
+
+function isImageProviderName(value: unknown): value is ImageProviderName {
+  return typeof value === 'string' && (PROVIDER_NAMES as string[]).includes(value);
+}
+
+function readEnv(env: ImageProviderEnv, name: string): string | undefined {
+  const value = env[name];
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+function requireEnv(env: ImageProviderEnv, name: string, provider: ImageProviderName): string {
+  const value = readEnv(env, name);
+  if (!value) {
+    throw new Error(`${name} is required for the ${provider} image provider`);
+  }
+  return value;
+}
+
+function getDefaultProviderName(env: ImageProviderEnv): ImageProviderName {
+  return readEnv(env, 'VITE_CLOUDINARY_CLOUD_NAME') && !env.DEV ? 'cloudinary' : 'local';
+}
+
+// VITE_IMAGE_PROVIDER picks the provider. Without it, production builds keep
+// using Cloudinary whenever VITE_CLOUDINARY_CLOUD_NAME is set
+export function createImageUrlProvider(env: ImageProviderEnv): ImageUrlProvider {
+  const name = readEnv(env, 'VITE_IMAGE_PROVIDER') ?? getDefaultProviderName(env);
+  if (!isImageProviderName(name)) {
+    throw new Error(`Unknown VITE_IMAGE_PROVIDER "${name}", expected one of ${PROVIDER_NAMES.join(', ')}`);
+  }
+
+  switch (name) {
+    case 'local':
+      return createLocalProvider();
+    case 'cloudinary':
+      return createCloudinaryProvider(
+        requireEnv(env, 'VITE_CLOUDINARY_CLOUD_NAME', name),
+        readEnv(env, 'VITE_CLOUDINARY_FOLDER') ?? DEFAULT_CLOUDINARY_FOLDER
+      );
+    case 'imgproxy':
+      // Every VITE_ variable lands in the bundle, a signing key there signs for anyone
+      for (const secret of ['VITE_IMGPROXY_KEY', 'VITE_IMGPROXY_SALT']) {
+        if (readEnv(env, secret)) {
+          throw new Error(`${secret} would ship in the bundle, imgproxy URLs are unsigned: unset it and limit the server instead`);
+        }
+      }
+      return createImgproxyProvider({
+        baseUrl: requireEnv(env, 'VITE_IMGPROXY_URL', name),
+        sourceUrl: requireEnv(env, 'VITE_IMGPROXY_SOURCE_URL', name),
+      });
+    case 'template':
+      return createTemplateProvider(
+        requireEnv(env, 'VITE_IMAGE_URL_TEMPLATE', name),
+        readEnv(env, 'VITE_IMAGE_ORIGINAL_URL_TEMPLATE')
+      );
+  }
+}
+
+// `url 250w, url 500w, …`, empty when the provider can't serve the format
+export function getSrcSet(provider: ImageUrlProvider, image: ProviderImage, format: ImageFormat): string {
+  return provider
+    .getWidths(image, format)
+    .map((width) => `${provider.getResizedUrl(image, width, format)} ${width}w`)
+    .join(', ');
+}
@@ -0,0 +1,11 @@
+import type { ProviderImage } from './types';
+
+// Tiles at 1x and 2x, then lightbox sizes. Shared with `scripts/process-images.ts`
+// so static files and on-the-fly transforms offer the same candidates
+export const DEFAULT_WIDTH_LADDER = [250, 500, 1280, 2560];
+
+// Never upscale, and don't offer the same pixels twice under different widths:
+// steps above the source collapse into one at the source width
+export function getLadderWidths(image: Pick<ProviderImage, 'width'>, ladder: readonly number[] = DEFAULT_WIDTH_LADDER): number[] {
+  return [...new Set(ladder.map((width) => Math.min(width, image.width)))].sort((a, b) => a - b);
+}
@@ -0,0 +1,26 @@
+import type { ImageFormat } from '../../types';
+import type { ImageUrlProvider, ProviderImage } from './types';
+
+function getFiles(image: ProviderImage, format: ImageFormat) {
+  return image.derivatives?.[format] ?? {};
+}
+
+// Static files from `npm run process-images`: the manifest lists exactly which derivatives exist
+export function createLocalProvider(baseUrl = ''): ImageUrlProvider {
+  const getOriginalUrl = (image: ProviderImage) => `${baseUrl}/images/${image.id}.jpg`;
+
+  return {
+    name: 'local',
+    getOriginalUrl,
+    getWidths(image, format) {
+      return Object.entries(getFiles(image, format))
+        .filter(([, fileName]) => fileName)
+        .map(([width]) => Number(width))
+        .sort((a, b) => a - b);
+    },
+    getResizedUrl(image, width, format) {
+      const fileName = getFiles(image, format)[width];
+      return fileName ? `${baseUrl}/images/thumbs/${fileName}` : getOriginalUrl(image);
+    },
+  };
+}
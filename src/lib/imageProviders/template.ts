@@ -0,0 +1,33 @@
+import type { ImageFormat } from '../../types';
+import { FORMAT_EXTENSIONS } from './formats';
+import { getLadderWidths } from './ladder';
+import type { ImageUrlProvider, ProviderImage } from './types';
+
+function fillTemplate(template: string, image: ProviderImage, width: number, format: ImageFormat): string {
+  const values: Record<string, string> = {
+    id: image.id,
+    hash: image.hash ?? '',
+    width: String(width),
+    format,
+    ext: FORMAT_EXTENSIONS[format],
+  };
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => values[name] ?? match);
+}
+
+// Any CDN with width and format in the URL, e.g.
+// `https://cdn.example.com/cats/{id}.jpg?w={width}&fm={format}`.
+// Placeholders: {id}, {hash}, {width}, {format} (avif, webp, jpeg), {ext} (avif, webp, jpg)
+export function createTemplateProvider(template: string, originalTemplate = '/images/{id}.jpg'): ImageUrlProvider {
+  return {
+    name: 'template',
+    getOriginalUrl(image) {
+      return fillTemplate(originalTemplate, image, image.width, 'jpeg');
+    },
+    getWidths(image) {
+      return getLadderWidths(image);
+    },
+    getResizedUrl(image, width, format) {
+      return fillTemplate(template, image, width, format);
+    },
+  };
+}
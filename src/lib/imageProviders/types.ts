@@ -0,0 +1,20 @@
+import type { ImageFormat, ImageMeta } from '../../types';
+
+export type ImageProviderName = 'local' | 'cloudinary' | 'imgproxy' | 'template';
+
+// What a provider may look at to build URLs
+export type ProviderImage = Pick<ImageMeta, 'id' | 'width' | 'hash' | 'derivatives'>;
+
+// Builds every image URL the app and the prerender use, so switching hosting
+// is a config change rather than a code change
+export interface ImageUrlProvider {
+  name: ImageProviderName;
+  // Full-size image, the fallback for browsers that can't use any derivative
+  getOriginalUrl(image: ProviderImage): string;
+  // Widths `getResizedUrl` serves for this image and format, ascending. Empty when the format isn't available
+  getWidths(image: ProviderImage, format: ImageFormat): number[];
+  getResizedUrl(image: ProviderImage, width: number, format: ImageFormat): string;
+}
+
+// Vite-style env: `import.meta.env` in the app, the loaded env in the build scripts
+export type ImageProviderEnv = Record<string, string | boolean | undefined>;
@@ -1,22 +1,38 @@
-export function getOriginalUrl(id: string): string {
-  if (import.meta.env.DEV) {
-    return `/images/${id}.jpg`;
-  }
+import { createImageUrlProvider, getSrcSet as getProviderSrcSet, PICTURE_FORMATS } from './imageProviders';
+import type { ProviderImage } from './imageProviders';
+import type { ImageFormat } from '../types';
 
-  const cloudName = import.meta.env.VITE_CLOUDINARY_CLOUD_NAME;
+export { FORMAT_MIME_TYPES, PICTURE_FORMATS } from './imageProviders';
 
-  if (!cloudName) {
-    return `/images/${id}.jpg`;
-  }
+// Picked once from the build env, see createImageUrlProvider
+const provider = createImageUrlProvider(import.meta.env);
 
-  return `https://res.cloudinary.com/${cloudName}/image/upload/infinite-cats/${id}.jpg`;
+export function getOriginalUrl(image: ProviderImage): string {
+  return provider.getOriginalUrl(image);
 }
 
-export function getThumbSrcSet(id: string): string {
-  // 250w for 1x displays, 500w for 2x retina
-  return `/images/thumbs/${id}-250w.webp 1x, /images/thumbs/${id}-500w.webp 2x`;
+// `url 250w, url 500w, …`, empty when the provider can't serve the format
+export function getSrcSet(image: ProviderImage, format: ImageFormat): string {
+  return getProviderSrcSet(provider, image, format);
 }
 
-export function getThumbUrl(id: string): string {
-  return `/images/thumbs/${id}-250w.webp`;
+// Smallest derivative at least `width` device pixels wide, or the largest there
+// is. For renderers that pick a source themselves instead of using srcset
+export function getSizedUrl(image: ProviderImage, width: number, format: ImageFormat): string {
+  const widths = provider.getWidths(image, format);
+  if (widths.length === 0) return provider.getOriginalUrl(image);
+  const best = widths.find((candidate) => candidate >= width) ?? widths[widths.length - 1];
+  return provider.getResizedUrl(image, best, format);
+}
+
+// What <picture> would take in a browser that decodes everything: the first of
+// PICTURE_FORMATS the provider has sizes of, else JPEG
+export function getPreferredFormat(image: ProviderImage): ImageFormat {
+  return PICTURE_FORMATS.find((format) => provider.getWidths(image, format).length > 0) ?? 'jpeg';
+}
+
+// Rendered width for `sizes`, rounded up to the zoom tier so zooming doesn't
+// re-pick sources on every frame
+export function getTileSizes(tileWidth: number, resolutionTier = 1): string {
+  return `${Math.ceil(tileWidth * resolutionTier)}px`;
 }
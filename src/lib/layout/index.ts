@@ -0,0 +1,36 @@
+// Pure layout algorithms shared by the app and the build scripts
+// (prerender, manifest). Must stay free of DOM and Vite APIs.
+import type { ImageMeta, PlacedImage } from '../../types';
+import { seededRandom, seededShuffle } from '../seededRandom';
+import type { LayoutConfig, LayoutEngine, LayoutEngineName } from './types';
+import { justifiedLayout } from './justified';
+import { masonryLayout } from './masonry';
+import { scatteredLayout } from './scattered';
+
+export type { LayoutConfig, LayoutEngine, LayoutEngineName } from './types';
+export { getCollectionSize, getLayoutMediaQuery, getResponsiveLayoutConfig } from './responsive';
+export type { CollectionSize, ViewportInfo } from './responsive';
+
+export const LAYOUT_ENGINES: Record<LayoutEngineName, LayoutEngine> = {
+  justified: justifiedLayout,
+  masonry: masonryLayout,
+  scattered: scatteredLayout,
+};
+
+export const DEFAULT_LAYOUT_CONFIG: LayoutConfig = {
+  engine: 'justified',
+  worldSize: 12000,
+  targetRowHeight: 320,
+  gap: 30,
+  seed: 1,
+  shuffle: false,
+};
+
+export function isLayoutEngineName(value: unknown): value is LayoutEngineName {
+  return typeof value === 'string' && Object.hasOwn(LAYOUT_ENGINES, value);
+}
+
+export function computeLayout(allImages: ImageMeta[], config: LayoutConfig = DEFAULT_LAYOUT_CONFIG): PlacedImage[] {
+  const ordered = config.shuffle ? seededShuffle(allImages, seededRandom(config.seed)) : allImages;
+  return LAYOUT_ENGINES[config.engine].compute(ordered, config);
+}
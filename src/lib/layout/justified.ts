@@ -0,0 +1,87 @@
+import type { ImageMeta, PlacedImage } from '../../types';
+import type { LayoutConfig, LayoutEngine } from './types';
+
+// Justified rows (like Google Photos), each row filling the full world width
+function computeJustifiedLayout(allImages: ImageMeta[], config: LayoutConfig): PlacedImage[] {
+  const { worldSize, targetRowHeight, gap } = config;
+  const placedImages: PlacedImage[] = [];
+  let currentY = 0;
+  let imageIndex = 0;
+
+  // Fill the entire world with rows
+  while (currentY < worldSize) {
+    // Collect images for this row - track ONLY natural widths (no gaps)
+    const rowImages: { image: ImageMeta; naturalWidth: number }[] = [];
+    let totalNaturalWidth = 0;
+
+    // Keep adding images until natural width (plus gaps) would exceed world size
+    while (imageIndex < allImages.length * 100) { // Safety limit
+      const image = allImages[imageIndex % allImages.length];
+      const naturalWidth = targetRowHeight * image.aspectRatio;
+
+      // Calculate what total width would be if we add this image
+      const gapsIfAdded = rowImages.length * gap; // N images = N-1 gaps, but we're adding one more so N gaps
+      const widthIfAdded = totalNaturalWidth + naturalWidth + gapsIfAdded;
+
+      // If adding this image would exceed, and we have at least 2 images, stop
+      if (widthIfAdded > worldSize && rowImages.length >= 2) {
+        break;
+      }
+
+      rowImages.push({ image, naturalWidth });
+      totalNaturalWidth += naturalWidth;
+      imageIndex++;
+    }
+
+    if (rowImages.length === 0) break;
+
+    // Calculate scale to make row fit EXACTLY
+    const numGaps = rowImages.length - 1;
+    const availableForImages = worldSize - (numGaps * gap);
+    const scale = availableForImages / totalNaturalWidth;
+    let rowHeight = Math.round(targetRowHeight * scale);
+
+    // If this row would extend beyond worldSize (minus gap for world wrap), scale it to fit
+    const remainingHeight = worldSize - currentY - gap; // Leave gap at the end for world wrap
+    if (rowHeight > remainingHeight) {
+      // If remaining space is too small, skip this row
+      if (remainingHeight < 100) {
+        break;
+      }
+      rowHeight = remainingHeight;
+    }
+
+    // Place images in row - they MUST fill exactly worldSize
+    let currentX = 0;
+    for (let i = 0; i < rowImages.length; i++) {
+      const item = rowImages[i];
+
+      // For last image, calculate width to fill remaining space (minus gap for world wrap)
+      let width: number;
+      if (i === rowImages.length - 1) {
+        width = worldSize - currentX - gap;
+      } else {
+        width = Math.round(item.naturalWidth * scale);
+      }
+
+      placedImages.push({
+        id: item.image.id,
+        x: currentX,
+        y: currentY,
+        width,
+        height: rowHeight,
+      });
+
+      currentX += width + gap;
+    }
+
+    currentY += rowHeight + gap;
+  }
+
+  return placedImages;
+}
+
+export const justifiedLayout: LayoutEngine = {
+  name: 'justified',
+  compute: computeJustifiedLayout,
+};
@@ -0,0 +1,71 @@
+import type { ImageMeta, PlacedImage } from '../../types';
+import type { LayoutConfig, LayoutEngine } from './types';
+
+// Column width relative to the target row height, roughly the width a
+// typical portrait photo gets in justified rows
+const COLUMN_WIDTH_RATIO = 0.75;
+
+// Pinterest-style columns: each image goes to the currently shortest column
+function computeMasonryLayout(allImages: ImageMeta[], config: LayoutConfig): PlacedImage[] {
+  const { worldSize, targetRowHeight, gap } = config;
+  const placedImages: PlacedImage[] = [];
+
+  if (allImages.length === 0) return placedImages;
+
+  // Columns split the world width exactly, leaving GAP at the end for world wrap
+  const columnCount = Math.max(1, Math.round(worldSize / (targetRowHeight * COLUMN_WIDTH_RATIO + gap)));
+  const columnStep = worldSize / columnCount;
+  const columnBottom = worldSize - gap;
+  // Space left at the bottom of a column below which no new tile is started
+  const minTileHeight = (columnStep - gap) / 2;
+
+  const columnHeights: number[] = new Array(columnCount).fill(0);
+  const lastInColumn: (PlacedImage | null)[] = new Array(columnCount).fill(null);
+  let imageIndex = 0;
+
+  while (true) {
+    // Shortest column that still has room
+    let column = -1;
+    for (let c = 0; c < columnCount; c++) {
+      if (columnHeights[c] >= columnBottom) continue;
+      if (column === -1 || columnHeights[c] < columnHeights[column]) column = c;
+    }
+    if (column === -1) break;
+
+    const y = columnHeights[column];
+    const remaining = columnBottom - y;
+    const previous = lastInColumn[column];
+
+    // Too little room for another tile: stretch the previous one down to the edge
+    if (remaining < minTileHeight && previous) {
+      previous.height += gap + remaining;
+      columnHeights[column] = columnBottom;
+      continue;
+    }
+
+    const image = allImages[imageIndex % allImages.length];
+    imageIndex++;
+
+    const x = Math.round(column * columnStep);
+    const width = Math.round((column + 1) * columnStep) - gap - x;
+    let height = Math.round(width / image.aspectRatio);
+
+    // Close the column exactly at the world edge instead of leaving a sliver
+    // (tiles crop with object-fit: cover, so stretching is fine)
+    if (remaining - height - gap < minTileHeight) {
+      height = remaining;
+    }
+
+    const placed: PlacedImage = { id: image.id, x, y, width, height };
+    placedImages.push(placed);
+    lastInColumn[column] = placed;
+    columnHeights[column] = y + height + gap;
+  }
+
+  return placedImages;
+}
+
+export const masonryLayout: LayoutEngine = {
+  name: 'masonry',
+  compute: computeMasonryLayout,
+};
@@ -0,0 +1,129 @@
+import type { ImageMeta } from '../../types';
+import type { LayoutConfig } from './types';
+
+export interface ViewportInfo {
+  width: number;
+  height: number;
+  devicePixelRatio: number;
+}
+
+// What the world is sized for. Comes from the manifest index while chunks are still
+// arriving, so the world has its final size from the first chunk on
+export interface CollectionSize {
+  imageCount: number;
+  averageAspectRatio: number;
+}
+
+// Row height per viewport width: phones get smaller rows so several fit on screen
+const ROW_HEIGHT_BREAKPOINTS: { maxWidth: number; rowHeight: number }[] = [
+  { maxWidth: 600, rowHeight: 180 },
+  { maxWidth: 1024, rowHeight: 240 },
+  { maxWidth: 1920, rowHeight: 320 },
+  { maxWidth: Infinity, rowHeight: 400 },
+];
+const MIN_ROW_HEIGHT = 160;
+// Widest thumbnail and the aspect ratio of a typical photo: rows are capped so
+// a typical tile never needs more device pixels than the thumbnail has
+const SHARPEST_THUMB_WIDTH = 500;
+const TYPICAL_ASPECT_RATIO = 0.75;
+// The world should span several screens so one copy never repeats on screen
+const MIN_SCREENS_PER_WORLD = 3;
+// Extra area so every image gets placed at least once
+const COVERAGE_MARGIN = 1.15;
+// Rounding step, keeps the world stable across small viewport changes
+const WORLD_SIZE_STEP = 1000;
+
+// Row height at which a typical tile uses every pixel of the widest thumbnail
+function getSharpLimit(devicePixelRatio: number): number {
+  return SHARPEST_THUMB_WIDTH / (Math.max(1, devicePixelRatio) * TYPICAL_ASPECT_RATIO);
+}
+
+function getBreakpointIndex(viewport: ViewportInfo): number {
+  return ROW_HEIGHT_BREAKPOINTS.findIndex((bp) => viewport.width <= bp.maxWidth);
+}
+
+export function getCollectionSize(images: ImageMeta[]): CollectionSize {
+  return {
+    imageCount: images.length,
+    averageAspectRatio: images.length > 0
+      ? images.reduce((sum, image) => sum + image.aspectRatio, 0) / images.length
+      : TYPICAL_ASPECT_RATIO,
+  };
+}
+
+// Area needed to show every image about once at this row height, so small
+// collections get a small world instead of repeating the same cats
+function getCoverageSize(base: LayoutConfig, targetRowHeight: number, collection: CollectionSize): number {
+  const tileArea = (targetRowHeight + base.gap) * (targetRowHeight * collection.averageAspectRatio + base.gap);
+  return Math.sqrt(collection.imageCount * tileArea * COVERAGE_MARGIN);
+}
+
+// Derive world size and row height from the viewport and the collection size.
+// Pass the full `collection` while the manifest is still loading, so the world
+// keeps its size and the first rows stay put as more images arrive
+export function getResponsiveLayoutConfig(
+  base: LayoutConfig,
+  images: ImageMeta[],
+  viewport: ViewportInfo,
+  collection = getCollectionSize(images)
+): LayoutConfig {
+  const breakpoint = ROW_HEIGHT_BREAKPOINTS[getBreakpointIndex(viewport)];
+  const sharpLimit = getSharpLimit(viewport.devicePixelRatio);
+  const targetRowHeight = Math.round(Math.max(MIN_ROW_HEIGHT, Math.min(breakpoint.rowHeight, sharpLimit)));
+
+  const coverageSize = getCoverageSize(base, targetRowHeight, collection);
+  const screenSize = Math.max(viewport.width, viewport.height) * MIN_SCREENS_PER_WORLD;
+  const worldSize = Math.ceil(Math.max(coverageSize, screenSize) / WORLD_SIZE_STEP) * WORLD_SIZE_STEP;
+
+  return { ...base, targetRowHeight, worldSize };
+}
+
+// Round a device pixel ratio bound for a media query, erring towards a narrower range:
+// a screen right at the edge gets no prerender rather than one with the wrong row height
+function formatResolution(dppx: number, direction: 'min' | 'max'): string {
+  const rounded = direction === 'min' ? Math.ceil(dppx * 1000) / 1000 : Math.floor(dppx * 1000) / 1000;
+  return `(${direction}-resolution: ${rounded}dppx)`;
+}
+
+// CSS media query matching the viewports that get the same config as `viewport`,
+// so the prerender can pick markup that lines up with the runtime layout. Mirrors
+// getResponsiveLayoutConfig; viewport sizes are whole CSS pixels, as in innerWidth
+export function getLayoutMediaQuery(
+  base: LayoutConfig,
+  images: ImageMeta[],
+  viewport: ViewportInfo,
+  collection = getCollectionSize(images)
+): string {
+  const { targetRowHeight, worldSize } = getResponsiveLayoutConfig(base, images, viewport, collection);
+  const index = getBreakpointIndex(viewport);
+  const breakpoint = ROW_HEIGHT_BREAKPOINTS[index];
+  const conditions: string[] = [];
+
+  // Same breakpoint
+  if (index > 0) conditions.push(`(min-width: ${ROW_HEIGHT_BREAKPOINTS[index - 1].maxWidth + 1}px)`);
+
+  // Same row height: the sharpness limit has to round to it, or stay above the
+  // breakpoint's row height. A higher pixel ratio means a lower limit
+  const uncapped = Math.round(Math.max(MIN_ROW_HEIGHT, breakpoint.rowHeight));
+  if (targetRowHeight < uncapped) {
+    conditions.push(formatResolution(SHARPEST_THUMB_WIDTH / (TYPICAL_ASPECT_RATIO * (targetRowHeight + 0.5)), 'min'));
+  }
+  if (targetRowHeight > MIN_ROW_HEIGHT) {
+    const maxResolution = SHARPEST_THUMB_WIDTH / (TYPICAL_ASPECT_RATIO * (targetRowHeight - 0.5));
+    if (maxResolution > 1) conditions.push(formatResolution(maxResolution, 'max'));
+  }
+
+  // Same world size: the screen term must not round above it
+  const maxSide = Math.floor(worldSize / MIN_SCREENS_PER_WORLD);
+  conditions.push(`(max-width: ${Math.min(maxSide, breakpoint.maxWidth)}px)`, `(max-height: ${maxSide}px)`);
+
+  // ...nor below it, when the world is sized by the screen rather than the collection
+  const coverageSize = getCoverageSize(base, targetRowHeight, collection);
+  if (coverageSize <= worldSize - WORLD_SIZE_STEP) {
+    const minSide = Math.floor((worldSize - WORLD_SIZE_STEP) / MIN_SCREENS_PER_WORLD) + 1;
+    const query = conditions.join(' and ');
+    return `${query} and (min-width: ${minSide}px), ${query} and (min-height: ${minSide}px)`;
+  }
+
+  return conditions.join(' and ');
+}
@@ -0,0 +1,65 @@
+import type { ImageMeta, PlacedImage } from '../../types';
+import { seededRandom } from '../seededRandom';
+import type { LayoutConfig, LayoutEngine } from './types';
+
+const MAX_ROTATION_DEG = 8;
+// Photos are larger than their grid cell so neighbours overlap
+const TILE_TO_CELL_RATIO = 1.15;
+// How far a photo may drift from its cell centre, relative to the cell
+const JITTER_RATIO = 0.2;
+
+// Polaroids dropped on a table: a jittered grid with random rotation and overlap
+function computeScatteredLayout(allImages: ImageMeta[], config: LayoutConfig): PlacedImage[] {
+  const { worldSize, targetRowHeight, gap, seed } = config;
+  const placedImages: PlacedImage[] = [];
+
+  if (allImages.length === 0) return placedImages;
+
+  const random = seededRandom(seed);
+  const cellsPerSide = Math.max(1, Math.round(worldSize / (targetRowHeight + gap)));
+  const cellSize = worldSize / cellsPerSide;
+  const longSide = Math.round(cellSize * TILE_TO_CELL_RATIO);
+  let imageIndex = 0;
+
+  for (let row = 0; row < cellsPerSide; row++) {
+    for (let col = 0; col < cellsPerSide; col++) {
+      const image = allImages[imageIndex % allImages.length];
+      imageIndex++;
+
+      const width = image.aspectRatio >= 1 ? longSide : Math.round(longSide * image.aspectRatio);
+      const height = image.aspectRatio >= 1 ? Math.round(longSide / image.aspectRatio) : longSide;
+      const rotation = (random() * 2 - 1) * MAX_ROTATION_DEG;
+
+      // Half extents of the rotated bounding box
+      const radians = (Math.abs(rotation) * Math.PI) / 180;
+      const halfX = (width * Math.cos(radians) + height * Math.sin(radians)) / 2;
+      const halfY = (width * Math.sin(radians) + height * Math.cos(radians)) / 2;
+
+      // Keep the rotated photo inside the world so wrapping stays seamless
+      const centerX = clamp((col + 0.5 + (random() * 2 - 1) * JITTER_RATIO) * cellSize, halfX, worldSize - halfX);
+      const centerY = clamp((row + 0.5 + (random() * 2 - 1) * JITTER_RATIO) * cellSize, halfY, worldSize - halfY);
+
+      placedImages.push({
+        id: image.id,
+        x: Math.round(centerX - width / 2),
+        y: Math.round(centerY - height / 2),
+        width,
+        height,
+        rotation: Math.round(rotation * 10) / 10,
+        // Later photos lie on top, independent of the order tiles get rendered in
+        zIndex: placedImages.length + 1,
+      });
+    }
+  }
+
+  return placedImages;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+export const scatteredLayout: LayoutEngine = {
+  name: 'scattered',
+  compute: computeScatteredLayout,
+};
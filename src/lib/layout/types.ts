@@ -0,0 +1,24 @@
+import type { ImageMeta, PlacedImage } from '../../types';
+
+export type LayoutEngineName = 'justified' | 'masonry' | 'scattered';
+
+export interface LayoutConfig {
+  engine: LayoutEngineName;
+  // Side of the square world that wraps at its edges
+  worldSize: number;
+  // Row height for justified rows, base tile size for the other engines
+  targetRowHeight: number;
+  gap: number;
+  // Seed for engines with randomness and for shuffling
+  seed: number;
+  // Seeded order instead of manifest order, with a different permutation in
+  // every wrapped world copy so panning doesn't reveal the same sequence
+  shuffle: boolean;
+}
+
+// Produces the tiles of one world copy. Every tile must stay inside
+// [0, worldSize) so the spatial index and world wrapping keep working
+export interface LayoutEngine {
+  name: LayoutEngineName;
+  compute(images: ImageMeta[], config: LayoutConfig): PlacedImage[];
+}
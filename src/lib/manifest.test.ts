@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { MANIFEST_VERSION, parseManifest, parseManifestIndex } from './manifest';
+
+const CAT = { id: 'cat-1', width: 1200, height: 800, aspectRatio: 1.5 };
+
+describe('parseManifest', () => {
+  it('keeps valid entries as they are', () => {
+    const entry = {
+      ...CAT,
+      placeholder: 'data:image/webp;base64,UklGRg==',
+      dominantColor: '#a0522d',
+      hash: '8d951770aa3f4fea',
+      derivatives: { webp: { 250: 'cat-1-250w.b60e0529.webp' } },
+      caption: 'В коробке',
+      tags: ['Рыжий', 'рыжий'],
+    };
+    const { manifest, errors } = parseManifest({ version: MANIFEST_VERSION, images: [entry] });
+
+    expect(errors).toEqual([]);
+    expect(manifest).toEqual({ version: MANIFEST_VERSION, images: [{ ...entry, tags: ['рыжий'] }] });
+  });
+
+  it('skips entries that cannot be laid out and says why', () => {
+    const { manifest, errors } = parseManifest({
+      version: MANIFEST_VERSION,
+      images: [{ ...CAT, width: 0 }, 'cat-2', { width: 10, height: 10, aspectRatio: 1 }, { ...CAT, id: 'cat-3' }],
+    });
+
+    expect(manifest.images.map((image) => image.id)).toEqual(['cat-3']);
+    expect(errors).toEqual([
+      'cat-1: width must be a positive integer, got 0',
+      'images[0] skipped',
+      'expected an object',
+      'images[1] skipped',
+      'entry without id: id must be a non-empty string',
+      'images[2] skipped',
+    ]);
+  });
+
+  it('drops bad optional fields but keeps the image', () => {
+    const { manifest, errors } = parseManifest({
+      version: MANIFEST_VERSION,
+      images: [{ ...CAT, aspectRatio: 2, placeholder: 'https://x', dominantColor: 'red', derivatives: { gif: {} }, postUrl: 'x' }],
+    });
+
+    expect(manifest.images).toEqual([{ ...CAT, derivatives: {} }]);
+    expect(errors).toHaveLength(5);
+    expect(errors[0]).toBe("cat-1: aspectRatio 2 doesn't match 1200x800");
+  });
+
+  it('skips duplicate ids, across chunks too', () => {
+    const seen = new Set<string>();
+    const first = parseManifest({ version: MANIFEST_VERSION, images: [CAT, { ...CAT, width: 600, aspectRatio: 0.75 }] }, seen);
+    const second = parseManifest({ version: MANIFEST_VERSION, images: [CAT] }, seen);
+
+    expect(first.manifest.images).toEqual([CAT]);
+    expect(first.errors).toEqual(['cat-1: duplicate id, images[1] skipped']);
+    expect(second.manifest.images).toEqual([]);
+    expect(second.errors).toEqual(['cat-1: duplicate id, images[0] skipped']);
+  });
+
+  it('upgrades v1 thumbs, plain or content-hashed, to derivatives', () => {
+    const { manifest, errors } = parseManifest({
+      images: [CAT, { ...CAT, id: 'cat-2', thumbs: { 250: 'cat-2-250w.b60e0529.webp' } }],
+    });
+
+    expect(errors).toEqual([]);
+    expect(manifest.images).toEqual([
+      { ...CAT, derivatives: { webp: { 250: 'cat-1-250w.webp', 500: 'cat-1-500w.webp' } } },
+      { ...CAT, id: 'cat-2', derivatives: { webp: { 250: 'cat-2-250w.b60e0529.webp' } } },
+    ]);
+  });
+
+  it('refuses manifests it cannot read', () => {
+    expect(() => parseManifest({ version: MANIFEST_VERSION + 1, images: [] })).toThrow('newer than this build');
+    expect(() => parseManifest({ version: 0, images: [] })).toThrow('positive integer');
+    expect(() => parseManifest({ version: MANIFEST_VERSION })).toThrow('`images` array');
+  });
+});
+
+describe('parseManifestIndex', () => {
+  it('reads the chunk list', () => {
+    expect(parseManifestIndex({ version: 2, imageCount: 3, averageAspectRatio: 1.2, chunks: ['images-0.a1b2.json'] })).toEqual({
+      version: 2,
+      imageCount: 3,
+      averageAspectRatio: 1.2,
+      chunks: ['images-0.a1b2.json'],
+    });
+  });
+
+  it.each([
+    [{ version: 2, imageCount: -1, chunks: [] }, 'imageCount'],
+    [{ version: 2, imageCount: 1, averageAspectRatio: 0, chunks: [] }, 'averageAspectRatio'],
+    [{ version: 2, imageCount: 1, chunks: ['../secrets.json'] }, 'invalid chunk name'],
+    [{ version: 2, imageCount: 1 }, '`chunks` array'],
+  ])('rejects %j', (raw, message) => {
+    expect(() => parseManifestIndex(raw)).toThrow(message);
+  });
+});
@@ -0,0 +1,222 @@
+// Reads the image manifest in the app and in the build scripts: upgrades older
+// versions, then checks every entry so one bad image can't break the canvas.
+// Must stay free of DOM and Vite APIs.
+import type { ImageFormat, ImageManifest, ImageMeta, ManifestIndex } from '../types';
+import { parseImageMetadata } from './imageMetadata';
+import { getCollectionSize } from './layout';
+import type { CollectionSize } from './layout';
+
+// Bump together with a new entry in MIGRATIONS whenever the manifest changes shape
+export const MANIFEST_VERSION = 2;
+
+const IMAGE_FORMATS: ImageFormat[] = ['avif', 'webp', 'jpeg'];
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+// Allowed difference between aspectRatio and width / height, for rounding
+const ASPECT_RATIO_TOLERANCE = 0.01;
+// Enough to see what's wrong without flooding the console
+const MAX_REPORTED_ERRORS = 20;
+
+type RawManifest = { version: number; images: unknown[] };
+type RawEntry = Record<string, unknown>;
+
+// Upgrades a manifest from the version in the key to the next one
+const MIGRATIONS: Record<number, (manifest: RawManifest) => RawManifest> = {
+  // v1 had no derivative list: either plain `<id>-<width>w.webp` thumbs, or
+  // content-hashed ones under `thumbs`
+  1: (manifest) => ({
+    version: 2,
+    images: manifest.images.map((entry) => {
+      if (!isRecord(entry) || entry.derivatives) return entry;
+      const { thumbs, ...rest } = entry;
+      const webp = isRecord(thumbs) ? thumbs : { 250: `${entry.id}-250w.webp`, 500: `${entry.id}-500w.webp` };
+      return { ...rest, derivatives: { webp } };
+    }),
+  }),
+};
+
+export interface ManifestParseResult {
+  // Only the entries that passed validation
+  manifest: ImageManifest;
+  // One line per problem, `cat-12: width must be a positive integer, got 0`
+  errors: string[];
+}
+
+function isRecord(value: unknown): value is RawEntry {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+function migrate(raw: RawManifest): RawManifest {
+  let manifest = raw;
+  while (manifest.version < MANIFEST_VERSION) {
+    const upgrade = MIGRATIONS[manifest.version];
+    if (!upgrade) {
+      throw new Error(`No migration from manifest version ${manifest.version}`);
+    }
+    manifest = upgrade(manifest);
+  }
+  return manifest;
+}
+
+function validateDerivatives(value: unknown, errors: string[]): ImageMeta['derivatives'] {
+  if (!isRecord(value)) {
+    errors.push('derivatives must be an object');
+    return undefined;
+  }
+
+  const derivatives: ImageMeta['derivatives'] = {};
+  for (const [format, files] of Object.entries(value)) {
+    if (!(IMAGE_FORMATS as string[]).includes(format)) {
+      errors.push(`derivatives has unknown format "${format}"`);
+      continue;
+    }
+    if (!isRecord(files) || !Object.entries(files).every(([width, file]) => /^\d+$/.test(width) && typeof file === 'string')) {
+      errors.push(`derivatives.${format} must map widths to file names`);
+      continue;
+    }
+    derivatives[format as ImageFormat] = files as Record<string, string>;
+  }
+  return derivatives;
+}
+
+// Returns the entry, or null with the reasons added to `errors`
+function validateEntry(entry: unknown, errors: string[]): ImageMeta | null {
+  if (!isRecord(entry)) {
+    errors.push('expected an object');
+    return null;
+  }
+
+  const { id, width, height, aspectRatio, placeholder, dominantColor, hash, derivatives, ...rest } = entry;
+  const entryErrors: string[] = [];
+
+  if (typeof id !== 'string' || id === '') entryErrors.push('id must be a non-empty string');
+  if (!isPositiveInteger(width)) entryErrors.push(`width must be a positive integer, got ${JSON.stringify(width)}`);
+  if (!isPositiveInteger(height)) entryErrors.push(`height must be a positive integer, got ${JSON.stringify(height)}`);
+
+  // JSON turns NaN and Infinity into null
+  if (typeof aspectRatio !== 'number' || !Number.isFinite(aspectRatio) || aspectRatio <= 0) {
+    entryErrors.push(`aspectRatio must be a positive number, got ${JSON.stringify(aspectRatio)}`);
+  } else if (
+    isPositiveInteger(width) &&
+    isPositiveInteger(height) &&
+    Math.abs(aspectRatio - width / height) > ASPECT_RATIO_TOLERANCE
+  ) {
+    entryErrors.push(`aspectRatio ${aspectRatio} doesn't match ${width}x${height}`);
+  }
+
+  if (placeholder !== undefined && (typeof placeholder !== 'string' || !placeholder.startsWith('data:image/'))) {
+    entryErrors.push('placeholder must be an image data URI');
+  }
+  if (dominantColor !== undefined && (typeof dominantColor !== 'string' || !COLOR_PATTERN.test(dominantColor))) {
+    entryErrors.push(`dominantColor must look like #rrggbb, got ${JSON.stringify(dominantColor)}`);
+  }
+  if (hash !== undefined && typeof hash !== 'string') entryErrors.push('hash must be a string');
+
+  const validDerivatives = derivatives === undefined ? undefined : validateDerivatives(derivatives, entryErrors);
+  // Whatever's left is sidecar metadata, which has its own rules
+  const { metadata, errors: metadataErrors } = parseImageMetadata(rest);
+  entryErrors.push(...metadataErrors);
+
+  const label = typeof id === 'string' && id !== '' ? id : 'entry without id';
+  errors.push(...entryErrors.map((error) => `${label}: ${error}`));
+
+  // Bad optional fields are dropped, the image itself is only skipped when it can't be laid out
+  if (typeof id !== 'string' || id === '' || !isPositiveInteger(width) || !isPositiveInteger(height)) return null;
+
+  return {
+    id,
+    width,
+    height,
+    aspectRatio: width / height,
+    ...(typeof placeholder === 'string' && placeholder.startsWith('data:image/') ? { placeholder } : {}),
+    ...(typeof dominantColor === 'string' && COLOR_PATTERN.test(dominantColor) ? { dominantColor } : {}),
+    ...(typeof hash === 'string' ? { hash } : {}),
+    ...(validDerivatives ? { derivatives: validDerivatives } : {}),
+    ...metadata,
+  };
+}
+
+function parseVersion(raw: RawEntry): number {
+  // Manifests written before versioning was enforced may lack the field
+  const version = raw.version ?? 1;
+  if (!isPositiveInteger(version)) {
+    throw new Error(`Manifest version must be a positive integer, got ${JSON.stringify(version)}`);
+  }
+  if (version > MANIFEST_VERSION) {
+    throw new Error(`Manifest version ${version} is newer than this build supports (${MANIFEST_VERSION})`);
+  }
+  return version;
+}
+
+// Chunk names are joined onto the index URL, so only plain file names are accepted
+export function parseManifestIndex(raw: unknown): ManifestIndex {
+  if (!isRecord(raw) || !Array.isArray(raw.chunks)) {
+    throw new Error('Manifest index must be an object with a `chunks` array');
+  }
+
+  const version = parseVersion(raw);
+  const { imageCount, averageAspectRatio, chunks } = raw;
+  if (typeof imageCount !== 'number' || !Number.isInteger(imageCount) || imageCount < 0) {
+    throw new Error(`Manifest index imageCount must be a non-negative integer, got ${JSON.stringify(imageCount)}`);
+  }
+  if (averageAspectRatio !== undefined && (typeof averageAspectRatio !== 'number' || !(averageAspectRatio > 0))) {
+    throw new Error(`Manifest index averageAspectRatio must be a positive number, got ${JSON.stringify(averageAspectRatio)}`);
+  }
+  const badChunk = chunks.find((chunk) => typeof chunk !== 'string' || !/^[\w.-]+\.json$/.test(chunk));
+  if (badChunk !== undefined) {
+    throw new Error(`Manifest index has an invalid chunk name ${JSON.stringify(badChunk)}`);
+  }
+
+  return { version, imageCount, averageAspectRatio, chunks: chunks as string[] };
+}
+
+// What the world is sized for while `images` are the chunks loaded so far. Indexes
+// written before averageAspectRatio fall back to the loaded images, so their world
+// only settles once every chunk is in
+export function getIndexCollectionSize(index: ManifestIndex, images: ImageMeta[]): CollectionSize {
+  if (index.averageAspectRatio === undefined) {
+    return { ...getCollectionSize(images), imageCount: Math.max(index.imageCount, images.length) };
+  }
+  return { imageCount: index.imageCount, averageAspectRatio: index.averageAspectRatio };
+}
+
+// Throws only when the file as a whole is unusable; bad entries are dropped and reported in `errors`.
+// Pass the same `seen` set for every chunk to catch duplicates across chunks, it's updated in place
+export function parseManifest(raw: unknown, seen = new Set<string>()): ManifestParseResult {
+  if (!isRecord(raw) || !Array.isArray(raw.images)) {
+    throw new Error('Manifest must be an object with an `images` array');
+  }
+
+  const { images } = migrate({ version: parseVersion(raw), images: raw.images });
+
+  const errors: string[] = [];
+  const valid: ImageMeta[] = [];
+
+  images.forEach((entry, index) => {
+    const image = validateEntry(entry, errors);
+    if (!image) {
+      errors.push(`images[${index}] skipped`);
+      return;
+    }
+    if (seen.has(image.id)) {
+      errors.push(`${image.id}: duplicate id, images[${index}] skipped`);
+      return;
+    }
+    seen.add(image.id);
+    valid.push(image);
+  });
+
+  return { manifest: { version: MANIFEST_VERSION, images: valid }, errors };
+}
+
+// `prefix` plus the first few errors, for console output
+export function formatManifestErrors(prefix: string, errors: string[]): string {
+  const shown = errors.slice(0, MAX_REPORTED_ERRORS).map((error) => `  ${error}`);
+  if (errors.length > MAX_REPORTED_ERRORS) {
+    shown.push(`  ... and ${errors.length - MAX_REPORTED_ERRORS} more`);
+  }
+  return [`${prefix} (${errors.length} problems):`, ...shown].join('\n');
+}
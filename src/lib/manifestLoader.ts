@@ -0,0 +1,56 @@
+import type { CollectionSize } from './layout';
+import { formatManifestErrors, getIndexCollectionSize, parseManifest, parseManifestIndex } from './manifest';
+import type { ImageMeta } from '../types';
+
+export interface ManifestProgress {
+  // Every image received so far, a new array on each update
+  images: ImageMeta[];
+  // The whole collection, from the index
+  collection: CollectionSize;
+  complete: boolean;
+}
+
+// `VITE_MANIFEST_URL` points at a manifest hosted elsewhere, e.g. on the image CDN
+export function getManifestUrl(): string {
+  return import.meta.env.VITE_MANIFEST_URL || `${import.meta.env.BASE_URL}manifest/index.json`;
+}
+
+async function fetchJson(url: URL, init: RequestInit): Promise<unknown> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new Error(`Failed to load ${url}: ${response.status} ${response.statusText}`);
+  }
+  return response.json();
+}
+
+// Fetches the index, then all chunks at once, and reports them in order as they
+// arrive so the canvas can start with the first one. Rejects if any request fails
+export async function loadManifest(
+  onProgress: (progress: ManifestProgress) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const indexUrl = new URL(getManifestUrl(), window.location.href);
+  // The index is the only file that changes in place, the chunks are content-hashed
+  const index = parseManifestIndex(await fetchJson(indexUrl, { cache: 'no-cache', signal }));
+  const requests = index.chunks.map((chunk) => fetchJson(new URL(chunk, indexUrl), { signal }));
+  // Rejections are handled in order below, don't let later ones go unhandled meanwhile
+  requests.forEach((request) => request.catch(() => {}));
+
+  const seen = new Set<string>();
+  let images: ImageMeta[] = [];
+
+  if (requests.length === 0) {
+    onProgress({ images, collection: getIndexCollectionSize(index, images), complete: true });
+    return;
+  }
+
+  for (const [i, request] of requests.entries()) {
+    const { manifest, errors } = parseManifest(await request, seen);
+    if (errors.length > 0) {
+      console.error(formatManifestErrors(`Skipping invalid entries in ${index.chunks[i]}`, errors));
+    }
+
+    images = [...images, ...manifest.images];
+    onProgress({ images, collection: getIndexCollectionSize(index, images), complete: i === requests.length - 1 });
+  }
+}
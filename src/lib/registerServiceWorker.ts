@@ -0,0 +1,28 @@
+import type { CacheImagesMessage } from './serviceWorkerConfig';
+
+// sw.js only exists in production builds, see serviceWorkerPlugin in vite.config.ts
+export function registerServiceWorker(): void {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  // After load, so installing doesn't compete with the first images
+  window.addEventListener('load', () => {
+    const firstInstall = !navigator.serviceWorker.controller;
+    navigator.serviceWorker
+      .register(`${import.meta.env.BASE_URL}sw.js`)
+      .then(() => navigator.serviceWorker.ready)
+      .then((registration) => {
+        if (!firstInstall) return;
+        // The images on screen loaded before the worker existed, hand them over
+        // so the first screen works offline too. Preloaded ones count as links
+        const message: CacheImagesMessage = {
+          type: 'cache-images',
+          urls: performance
+            .getEntriesByType('resource')
+            .filter((entry) => ['img', 'link'].includes((entry as PerformanceResourceTiming).initiatorType))
+            .map((entry) => entry.name),
+        };
+        registration.active?.postMessage(message);
+      })
+      .catch((error) => console.warn('Service worker not registered', error));
+  });
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { seededRandom, seededShuffle } from './seededRandom';
+
+describe('seededRandom', () => {
+  it('repeats the sequence for a seed and stays in [0, 1)', () => {
+    const a = seededRandom(42);
+    const b = seededRandom(42);
+    const values = Array.from({ length: 1000 }, () => a());
+
+    expect(Array.from({ length: 1000 }, () => b())).toEqual(values);
+    expect(values.every((value) => value >= 0 && value < 1)).toBe(true);
+    expect(seededRandom(43)()).not.toBe(values[0]);
+  });
+
+  it('shuffles a copy into a permutation that only depends on the seed', () => {
+    const items = Array.from({ length: 50 }, (_, i) => i);
+    const shuffled = seededShuffle(items, seededRandom(7));
+
+    expect(items).toEqual(Array.from({ length: 50 }, (_, i) => i));
+    expect([...shuffled].sort((a, b) => a - b)).toEqual(items);
+    expect(shuffled).not.toEqual(items);
+    expect(seededShuffle(items, seededRandom(7))).toEqual(shuffled);
+    expect(seededShuffle(items, seededRandom(8))).not.toEqual(shuffled);
+  });
+});
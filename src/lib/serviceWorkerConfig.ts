@@ -0,0 +1,27 @@
+// Shared by src/sw.ts, the page that registers it and serviceWorkerPlugin in
+// vite.config.ts. Types only: sw.js runs as a classic script and can't share modules
+
+// Baked into sw.js at build time
+export interface ServiceWorkerConfig {
+  // Changes whenever the app shell does, names the shell cache
+  buildId: string;
+  // Site root with a trailing slash, as in Vite's `base`
+  base: string;
+  // index.html and the bundled assets, relative to `base`
+  precache: string[];
+  // File names in `images/thumbs/` fetched at install, so the first offline visit
+  // shows tiles. Fits `thumbCacheBytes`, empty with an external image provider
+  precacheThumbs: string[];
+  manifestUrl: string;
+  // Image caches are named after it, a new manifest format starts them afresh
+  manifestVersion: number;
+  // Byte budgets, the oldest entries go first when a cache outgrows its budget
+  thumbCacheBytes: number;
+  originalCacheBytes: number;
+}
+
+// Images the page loaded before the worker took over, cached from the HTTP cache
+export interface CacheImagesMessage {
+  type: 'cache-images';
+  urls: string[];
+}
@@ -0,0 +1,49 @@
+import type { ImageMeta } from '../types';
+
+function parseUrl(value: string): URL | null {
+  try {
+    return new URL(value);
+  } catch {
+    return null;
+  }
+}
+
+function decodeHash(url: URL): string {
+  try {
+    return decodeURIComponent(url.hash.slice(1));
+  } catch {
+    return '';
+  }
+}
+
+// Telegram links to the same post: t.me/channel/42, t.me/s/channel/42, with ?single and so on
+function getPostKey(url: URL): string {
+  const path = url.pathname.replace(/^\/s\//, '/').replace(/\/$/, '');
+  return `${url.hostname.replace(/^www\./, '')}${path}`.toLowerCase();
+}
+
+// The cat a share points at: a link to the site with `#cat-42`, the Telegram post
+// it came from, or just its id. Apps put links in the text as often as in the url
+export function findSharedImage(images: ImageMeta[], shared: string[]): ImageMeta | null {
+  const byId = new Map(images.map((image) => [image.id, image]));
+  const byPost = new Map<string, ImageMeta>();
+  for (const image of images) {
+    const postUrl = image.postUrl ? parseUrl(image.postUrl) : null;
+    // An album shares one post, its first cat stands for it
+    if (postUrl && !byPost.has(getPostKey(postUrl))) byPost.set(getPostKey(postUrl), image);
+  }
+
+  for (const value of shared) {
+    for (const [link] of value.matchAll(/https?:\/\/\S+/g)) {
+      const url = parseUrl(link);
+      const image = url && (byId.get(decodeHash(url)) ?? byPost.get(getPostKey(url)));
+      if (image) return image;
+    }
+    for (const word of value.split(/[\s,;!?«»"'()]+/)) {
+      const image = byId.get(word) ?? byId.get(word.replace(/\.+$/, ''));
+      if (image) return image;
+    }
+  }
+
+  return null;
+}
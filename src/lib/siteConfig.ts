@@ -0,0 +1,58 @@
+// Name, colours and icons of the site. webManifestPlugin in vite.config.ts puts
+// them into the <head> of index.html and into manifest.webmanifest, so the tab,
+// the installed app and link previews agree. Must stay free of DOM and Vite APIs
+
+export interface SiteIcon {
+  // Relative to the site root, files live in public/
+  src: string;
+  sizes: string;
+  type: string;
+}
+
+export const SITE_CONFIG = {
+  name: 'тесные киски',
+  shortName: 'киски',
+  description: 'киски в тесных местах.',
+  lang: 'ru',
+  // Same grey as the canvas, so the splash screen and status bar blend into it
+  themeColor: '#dcdcdc',
+  backgroundColor: '#dcdcdc',
+  // For the installed app; favicons and the Apple touch icon are linked in index.html
+  icons: [
+    { src: 'android-chrome-192x192.png', sizes: '192x192', type: 'image/png' },
+    { src: 'android-chrome-512x512.png', sizes: '512x512', type: 'image/png' },
+  ] satisfies SiteIcon[],
+};
+
+// Query params the installed app receives when something is shared to it,
+// see share_target in manifest.webmanifest
+export const SHARE_TARGET_PARAMS = {
+  title: 'share-title',
+  text: 'share-text',
+  url: 'share-url',
+};
+
+export const WEB_MANIFEST_FILE = 'manifest.webmanifest';
+
+// Web app manifest for a site served from `base`
+export function createWebManifest(base: string): Record<string, unknown> {
+  return {
+    id: base,
+    name: SITE_CONFIG.name,
+    short_name: SITE_CONFIG.shortName,
+    description: SITE_CONFIG.description,
+    lang: SITE_CONFIG.lang,
+    start_url: base,
+    scope: base,
+    display: 'standalone',
+    theme_color: SITE_CONFIG.themeColor,
+    background_color: SITE_CONFIG.backgroundColor,
+    icons: SITE_CONFIG.icons.map((icon) => ({ ...icon, src: `${base}${icon.src}`, purpose: 'any' })),
+    // Sharing a link to a cat or its Telegram post opens that cat
+    share_target: {
+      action: base,
+      method: 'GET',
+      params: SHARE_TARGET_PARAMS,
+    },
+  };
+}
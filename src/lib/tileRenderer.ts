@@ -0,0 +1,17 @@
+// How Canvas draws its tiles: a DOM node per tile, or one 2D canvas that stays
+// fast with thousands of tiles on screen. DOM is the default and the fallback
+export type TileRendererName = 'dom' | 'canvas';
+
+export const DEFAULT_TILE_RENDERER: TileRendererName = 'dom';
+
+const TILE_RENDERER_NAMES: TileRendererName[] = ['dom', 'canvas'];
+
+export function isTileRendererName(value: unknown): value is TileRendererName {
+  return typeof value === 'string' && (TILE_RENDERER_NAMES as string[]).includes(value);
+}
+
+// Falls back to DOM tiles where a 2D context isn't available, e.g. with canvas blocked
+export function resolveTileRenderer(name: TileRendererName): TileRendererName {
+  if (name === 'canvas' && !document.createElement('canvas').getContext('2d')) return 'dom';
+  return name;
+}
@@ -0,0 +1,78 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { buildUrl, readLayoutOverrides, readSharedFavorites, readUrlState } from './urlState';
+
+function visit(url: string): void {
+  vi.stubGlobal('window', { location: new URL(url, 'https://cats.example/') });
+}
+
+describe('urlState', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('reads the open image from the hash', () => {
+    visit('/#cat%2042');
+    expect(readUrlState().imageId).toBe('cat 42');
+  });
+
+  it.each(['/#100%', '/#%E0'])('treats the malformed hash of %s as no image', (url) => {
+    visit(url);
+    expect(readUrlState().imageId).toBeNull();
+  });
+
+  it('reads the view from `at`, zoom defaulting to 1', () => {
+    visit('/?at=120,-40');
+    expect(readUrlState().at).toEqual({ x: 120, y: -40, zoom: 1 });
+    visit('/?at=120,-40,2.5');
+    expect(readUrlState().at).toEqual({ x: 120, y: -40, zoom: 2.5 });
+  });
+
+  it('reads a point in a tile from `at`, the id being everything before the last @', () => {
+    visit('/?at=cat-42@0.5,0.25,2');
+    expect(readUrlState().at).toEqual({ anchor: { imageId: 'cat-42', x: 0.5, y: 0.25 }, zoom: 2 });
+    visit('/?at=a%40b%2Cc@0.5,0.25');
+    expect(readUrlState().at).toEqual({ anchor: { imageId: 'a@b,c', x: 0.5, y: 0.25 }, zoom: 1 });
+  });
+
+  it('writes a point in a tile rounded, with the id escaped', () => {
+    visit('/');
+    const at = { anchor: { imageId: 'a@b,c', x: 0.123456, y: 1 / 3 }, zoom: 1.5 };
+    expect(buildUrl({ at })).toBe('/?at=a%40b%2Cc@0.123,0.333,1.5');
+
+    visit(buildUrl({ at }));
+    expect(readUrlState().at).toEqual({ anchor: { imageId: 'a@b,c', x: 0.123, y: 0.333 }, zoom: 1.5 });
+  });
+
+  it.each(['x,1', '1', '1,2,0', '1,2,-1', '@1,2', 'cat-1@1'])('ignores `at=%s`', (at) => {
+    visit(`/?at=${at}`);
+    expect(readUrlState().at).toBeNull();
+  });
+
+  it('reads the filter and round-trips it through buildUrl', () => {
+    visit('/?q=%D0%BA%D0%BE%D1%80%D0%BE%D0%B1%D0%BA%D0%B0&tag=рыжий&tag=&tag=котёнок');
+    const state = readUrlState();
+    expect(state.filter).toEqual({ query: 'коробка', tags: ['рыжий', 'котёнок'] });
+
+    visit(buildUrl({}));
+    expect(readUrlState().filter).toEqual(state.filter);
+  });
+
+  it('drops shared favourites and share params when building a URL', () => {
+    visit('/?fav=cat-1&share-url=x&layout=masonry#cat-1');
+    expect(buildUrl({ imageId: null })).toBe('/?layout=masonry');
+  });
+
+  it('reads shared favourites with commas and bad escapes', () => {
+    visit('/?fav=cat-1,a%2Cb,%E0,,cat-7');
+    expect(readSharedFavorites()).toEqual(['cat-1', 'a,b', 'cat-7']);
+    visit('/');
+    expect(readSharedFavorites()).toEqual([]);
+  });
+
+  it('turns on shuffling for a seed and ignores unknown engines', () => {
+    visit('/?layout=masonry&seed=42');
+    expect(readLayoutOverrides()).toEqual({ engine: 'masonry', seed: 42, shuffle: true });
+    visit('/?layout=spiral&seed=abc');
+    expect(readLayoutOverrides()).toEqual({});
+  });
+});
@@ -0,0 +1,165 @@
+import type { TileAnchor } from './globalLayout';
+import type { ImageFilter } from './imageFilter';
+import { isLayoutEngineName } from './layout';
+import type { LayoutConfig } from './layout';
+import { SHARE_TARGET_PARAMS } from './siteConfig';
+import { isTileRendererName } from './tileRenderer';
+import type { TileRendererName } from './tileRenderer';
+
+// Query params the prerender script checks for too, keep in sync with scripts/prerender-html.ts
+// View: `?at=cat-42@0.5,0.25` or `?at=cat-42@0.5,0.25,zoom`, older links `?at=x,y[,zoom]`
+const AT_PARAM = 'at';
+// Shares of the tile size kept in `at`, a fraction of a pixel on any tile
+const ANCHOR_PRECISION = 1000;
+// Layout engine: `?layout=masonry`
+const LAYOUT_PARAM = 'layout';
+// Shuffled layout: `?seed=42`
+const SEED_PARAM = 'seed';
+// Filter: `?q=коробка&tag=рыжий&tag=котёнок`
+const QUERY_PARAM = 'q';
+const TAG_PARAM = 'tag';
+// Shared favourites: `?fav=cat-1,cat-7`, offered for import once and then dropped
+const FAVORITES_PARAM = 'fav';
+// Something shared to the installed app: `?share-url=…&share-text=…`, see siteConfig.ts
+const SHARE_PARAMS = Object.values(SHARE_TARGET_PARAMS);
+// Tile renderer: `?renderer=canvas`, draws the same layout, so the prerender stays
+const RENDERER_PARAM = 'renderer';
+
+// The viewport centre and zoom. A point in a tile finds the same cat in any
+// layout; world coordinates only mean something in the layout they came from
+export type ViewAt = { anchor: TileAnchor; zoom: number } | { x: number; y: number; zoom: number };
+
+export interface UrlState {
+  at: ViewAt | null;
+  // Image open in the lightbox, stored in the hash (`#cat-42`) so links work on static hosting
+  imageId: string | null;
+  filter: ImageFilter;
+}
+
+function parseAt(value: string | null): UrlState['at'] {
+  if (!value) return null;
+
+  // Ids may hold anything, the numbers after the last `@` never do
+  const separator = value.lastIndexOf('@');
+  const imageId = separator >= 0 ? value.slice(0, separator) : null;
+  const [x, y, zoom = 1] = value.slice(separator + 1).split(',').map(Number);
+  if (imageId === '' || !Number.isFinite(x) || !Number.isFinite(y) || !Number.isFinite(zoom) || zoom <= 0) {
+    return null;
+  }
+
+  return imageId === null ? { x, y, zoom } : { anchor: { imageId, x, y }, zoom };
+}
+
+function roundShare(share: number): number {
+  return Math.round(share * ANCHOR_PRECISION) / ANCHOR_PRECISION;
+}
+
+function formatAt(at: ViewAt): string {
+  const roundedZoom = Math.round(at.zoom * 100) / 100;
+  const point =
+    'anchor' in at
+      ? `${encodeURIComponent(at.anchor.imageId)}@${roundShare(at.anchor.x)},${roundShare(at.anchor.y)}`
+      : `${Math.round(at.x)},${Math.round(at.y)}`;
+  return roundedZoom === 1 ? point : `${point},${roundedZoom}`;
+}
+
+// A malformed escape in a pasted link (`#100%`) means no image rather than a crash on load
+function readHash(): string {
+  try {
+    return decodeURIComponent(window.location.hash.slice(1));
+  } catch {
+    return '';
+  }
+}
+
+export function readUrlState(): UrlState {
+  const params = new URLSearchParams(window.location.search);
+  const hash = readHash();
+
+  return {
+    at: parseAt(params.get(AT_PARAM)),
+    imageId: hash || null,
+    filter: {
+      query: params.get(QUERY_PARAM) ?? '',
+      tags: params.getAll(TAG_PARAM).filter(Boolean),
+    },
+  };
+}
+
+// Build a URL from the current location with some of the state replaced
+export function buildUrl(patch: Partial<UrlState>): string {
+  const state = { ...readUrlState(), ...patch };
+
+  // Keep unrelated params, append `at` by hand so the commas stay unescaped
+  const params = new URLSearchParams(window.location.search);
+  params.delete(AT_PARAM);
+  params.delete(QUERY_PARAM);
+  params.delete(TAG_PARAM);
+  params.delete(FAVORITES_PARAM);
+  for (const name of SHARE_PARAMS) params.delete(name);
+  if (state.filter.query.trim()) params.set(QUERY_PARAM, state.filter.query.trim());
+  for (const tag of state.filter.tags) params.append(TAG_PARAM, tag);
+  let search = params.toString();
+  if (state.at) {
+    search = `${search ? `${search}&` : ''}${AT_PARAM}=${formatAt(state.at)}`;
+  }
+
+  const hash = state.imageId ? `#${encodeURIComponent(state.imageId)}` : '';
+  return `${window.location.pathname}${search ? `?${search}` : ''}${hash}`;
+}
+
+// Read from the raw query so ids with commas survive, URLSearchParams would decode them first
+export function readSharedFavorites(): string[] {
+  const param = window.location.search
+    .slice(1)
+    .split('&')
+    .find((part) => part.startsWith(`${FAVORITES_PARAM}=`));
+  if (!param) return [];
+
+  return param
+    .slice(FAVORITES_PARAM.length + 1)
+    .split(',')
+    .map((id) => {
+      try {
+        return decodeURIComponent(id);
+      } catch {
+        return '';
+      }
+    })
+    .filter(Boolean);
+}
+
+// Whatever was shared to the app, resolved to a cat once the manifest is there
+export function readShareTarget(): string[] {
+  const params = new URLSearchParams(window.location.search);
+  return SHARE_PARAMS.map((name) => params.get(name) ?? '').filter(Boolean);
+}
+
+// Absolute link to the plain canvas that offers these favourites to whoever opens it
+export function buildFavoritesUrl(ids: string[]): string {
+  const { origin, pathname } = window.location;
+  return `${origin}${pathname}?${FAVORITES_PARAM}=${ids.map(encodeURIComponent).join(',')}`;
+}
+
+// Layout settings a link can override, applied once on load
+export function readLayoutOverrides(): Partial<LayoutConfig> {
+  const params = new URLSearchParams(window.location.search);
+  const overrides: Partial<LayoutConfig> = {};
+
+  const engine = params.get(LAYOUT_PARAM);
+  if (isLayoutEngineName(engine)) overrides.engine = engine;
+
+  // A seed in the link turns on shuffling, so the recipient sees the same arrangement
+  const seed = Number.parseInt(params.get(SEED_PARAM) ?? '', 10);
+  if (Number.isFinite(seed)) {
+    overrides.seed = seed;
+    overrides.shuffle = true;
+  }
+
+  return overrides;
+}
+
+export function readRendererOverride(): TileRendererName | null {
+  const renderer = new URLSearchParams(window.location.search).get(RENDERER_PARAM);
+  return isTileRendererName(renderer) ? renderer : null;
+}
@@ -0,0 +1,28 @@
+export const MIN_ZOOM = 0.25;
+export const MAX_ZOOM = 4;
+
+export function clampZoom(scale: number): number {
+  return Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, scale));
+}
+
+// Returns the pan offset that keeps the world point under `anchor` (screen px)
+// fixed while the scale changes from `scale` to `nextScale`
+export function zoomAround(
+  pan: { x: number; y: number },
+  scale: number,
+  nextScale: number,
+  anchor: { x: number; y: number }
+): { x: number; y: number } {
+  const ratio = nextScale / scale;
+  return {
+    x: anchor.x - (anchor.x - pan.x) * ratio,
+    y: anchor.y - (anchor.y - pan.y) * ratio,
+  };
+}
+
+// Quantize the zoom into powers of two so thumbnails only swap at a few
+// thresholds instead of on every wheel tick
+export function getResolutionTier(scale: number): number {
+  if (scale <= 1) return 1;
+  return Math.pow(2, Math.ceil(Math.log2(scale)));
+}
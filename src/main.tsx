@@ -1,4 +1,5 @@
 import './index.css'
+import { registerServiceWorker } from './lib/registerServiceWorker'
 
 // Defer loading React and all interactivity until after first paint
 const loadApp = () => {
@@ -11,3 +12,5 @@ if ('requestIdleCallback' in window) {
 } else {
   setTimeout(loadApp, 1)
 }
+
+registerServiceWorker()
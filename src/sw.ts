@@ -0,0 +1,305 @@
+// Service worker, built into sw.js by serviceWorkerPlugin in vite.config.ts.
+// It runs as a classic script, so everything it needs lives in this file
+import type { CacheImagesMessage, ServiceWorkerConfig } from './lib/serviceWorkerConfig';
+
+const sw = self as unknown as ServiceWorkerGlobalScope;
+// Replaced with the literal config when the bundle is written
+const config = (self as unknown as { __SW_CONFIG__: ServiceWorkerConfig }).__SW_CONFIG__;
+
+const SHELL_CACHE = `shell-${config.buildId}`;
+const MANIFEST_CACHE = `manifest-v${config.manifestVersion}`;
+const THUMB_CACHE = `thumbs-v${config.manifestVersion}`;
+const ORIGINAL_CACHE = `originals-v${config.manifestVersion}`;
+const CURRENT_CACHES = [SHELL_CACHE, MANIFEST_CACHE, THUMB_CACHE, ORIGINAL_CACHE];
+// Caches of other builds and manifest versions, deleted on activation
+const OWN_CACHE_PATTERN = /^(shell|manifest|thumbs|originals)-/;
+
+// A flaky connection falls back to the cache instead of hanging
+const NETWORK_TIMEOUT_MS = 4000;
+// Trims are batched, a screenful of tiles arrives at once
+const TRIM_DELAY_MS = 2000;
+
+const indexUrl = new URL(config.manifestUrl, sw.location.href);
+const manifestDir = new URL('./', indexUrl).href;
+const thumbsPath = `${config.base}images/thumbs/`;
+const imagesPath = `${config.base}images/`;
+const shellPaths = new Set(config.precache.map((path) => `${config.base}${path}`));
+
+type Route = 'navigation' | 'shell' | 'manifest-index' | 'manifest-chunk' | 'thumb' | 'original';
+
+// What the manifest lists, so files it dropped are neither cached nor kept
+interface Listing {
+  chunkUrls: Set<string>;
+  thumbs: Set<string>;
+  ids: Set<string>;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function getFileName(url: URL): string {
+  return decodeURIComponent(url.pathname.slice(url.pathname.lastIndexOf('/') + 1));
+}
+
+function getRoute(request: Request): Route | null {
+  if (request.method !== 'GET') return null;
+  const url = new URL(request.url);
+  url.search = '';
+
+  if (request.mode === 'navigate') return url.origin === sw.location.origin ? 'navigation' : null;
+  if (url.href === indexUrl.href) return 'manifest-index';
+  if (url.href.startsWith(manifestDir) && url.pathname.endsWith('.json')) return 'manifest-chunk';
+  if (url.origin !== sw.location.origin) return null;
+
+  if (url.pathname.startsWith(thumbsPath)) return 'thumb';
+  const imageName = url.pathname.startsWith(imagesPath) ? url.pathname.slice(imagesPath.length) : '';
+  if (imageName.endsWith('.jpg') && !imageName.includes('/')) return 'original';
+  return shellPaths.has(url.pathname) ? 'shell' : null;
+}
+
+// The network, unless it fails or takes longer than NETWORK_TIMEOUT_MS while a
+// cached copy is there. Without one the network gets all the time it needs
+async function networkFirst(network: Promise<Response>, getCached: () => Promise<Response | undefined>): Promise<Response> {
+  // Settled either way, a late failure after the cache answered is expected
+  network.catch(() => {});
+  const timeout = new Promise<null>((resolve) => setTimeout(resolve, NETWORK_TIMEOUT_MS, null));
+  try {
+    const response = await Promise.race([network, timeout]);
+    if (response) return response;
+  } catch {
+    // Offline, try the cache
+  }
+  return (await getCached()) ?? network;
+}
+
+const pendingTrims = new Map<string, Promise<void>>();
+
+// Deletes the oldest entries until the cache fits its budget. Cache keys come
+// back in insertion order; sizes are from Content-Length, or the body without it
+async function trimCache(cacheName: string, budget: number): Promise<void> {
+  const cache = await caches.open(cacheName);
+  const requests = await cache.keys();
+  const sizes = await Promise.all(
+    requests.map(async (request) => {
+      const response = await cache.match(request);
+      if (!response) return 0;
+      const length = Number(response.headers.get('content-length'));
+      return length > 0 ? length : (await response.blob()).size;
+    })
+  );
+
+  let total = sizes.reduce((sum, size) => sum + size, 0);
+  for (let i = 0; i < requests.length && total > budget; i++) {
+    await cache.delete(requests[i]);
+    total -= sizes[i];
+  }
+}
+
+function scheduleTrim(cacheName: string, budget: number): Promise<void> {
+  let pending = pendingTrims.get(cacheName);
+  if (!pending) {
+    pending = new Promise((resolve) => setTimeout(resolve, TRIM_DELAY_MS))
+      .then(() => trimCache(cacheName, budget))
+      .finally(() => pendingTrims.delete(cacheName));
+    pendingTrims.set(cacheName, pending);
+  }
+  return pending;
+}
+
+// Serves from the cache, fetching and storing on a miss. With `waitUntil` the
+// response goes to the page right away and the copy is written in the background
+async function cacheFirst(
+  request: Request,
+  cacheName: string,
+  budget?: number,
+  waitUntil?: (promise: Promise<unknown>) => void
+): Promise<Response> {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const stored = cache
+      .put(request, response.clone())
+      .then(() => (budget === undefined ? undefined : scheduleTrim(cacheName, budget)));
+    if (waitUntil) waitUntil(stored);
+    else await stored;
+  }
+  return response;
+}
+
+let listing: Promise<Listing | null> | null = null;
+
+async function readListing(index: unknown): Promise<Listing | null> {
+  if (!isRecord(index) || !Array.isArray(index.chunks)) return null;
+
+  const chunkUrls = new Set(
+    index.chunks.filter((name): name is string => typeof name === 'string').map((name) => new URL(name, indexUrl).href)
+  );
+  const thumbs = new Set<string>();
+  const ids = new Set<string>();
+  for (const url of chunkUrls) {
+    const response = await cacheFirst(new Request(url), MANIFEST_CACHE);
+    if (!response.ok) return null;
+    const chunk: unknown = await response.json();
+    if (!isRecord(chunk) || !Array.isArray(chunk.images)) return null;
+
+    for (const image of chunk.images) {
+      if (!isRecord(image) || typeof image.id !== 'string') continue;
+      ids.add(image.id);
+      for (const files of Object.values(isRecord(image.derivatives) ? image.derivatives : {})) {
+        for (const fileName of Object.values(isRecord(files) ? files : {})) {
+          if (typeof fileName === 'string') thumbs.add(fileName);
+        }
+      }
+    }
+  }
+
+  return { chunkUrls, thumbs, ids };
+}
+
+// From the cached index. Without one nothing is known yet, and images are cached anyway
+function getListing(): Promise<Listing | null> {
+  listing ??= caches
+    .match(indexUrl.href, { cacheName: MANIFEST_CACHE })
+    .then((response) => (response ? response.json() : null))
+    .then(readListing)
+    .catch(() => null);
+  return listing;
+}
+
+async function isListed(route: 'thumb' | 'original', url: URL): Promise<boolean> {
+  const current = await getListing();
+  if (!current) return true;
+  const fileName = getFileName(url);
+  return route === 'thumb' ? current.thumbs.has(fileName) : current.ids.has(fileName.replace(/\.jpg$/, ''));
+}
+
+// Drops chunks, thumbnails and originals the manifest no longer lists
+async function pruneCaches(index: unknown): Promise<void> {
+  listing = readListing(index).catch(() => null);
+  const current = await listing;
+  if (!current) return;
+
+  const prune = async (cacheName: string, keep: (url: URL) => boolean) => {
+    const cache = await caches.open(cacheName);
+    for (const request of await cache.keys()) {
+      if (!keep(new URL(request.url))) await cache.delete(request);
+    }
+  };
+
+  await prune(MANIFEST_CACHE, (url) => url.href === indexUrl.href || current.chunkUrls.has(url.href));
+  await prune(THUMB_CACHE, (url) => current.thumbs.has(getFileName(url)));
+  await prune(ORIGINAL_CACHE, (url) => current.ids.has(getFileName(url).replace(/\.jpg$/, '')));
+}
+
+// Stores a fresh index, and prunes the image caches when the manifest changed
+async function updateManifest(response: Response): Promise<void> {
+  const cache = await caches.open(MANIFEST_CACHE);
+  const previous = await cache.match(indexUrl.href);
+  const text = await response.clone().text();
+  await cache.put(indexUrl.href, response);
+  if (previous && (await previous.text()) === text) return;
+  await pruneCaches(JSON.parse(text));
+}
+
+async function handleFetch(event: FetchEvent, route: Route): Promise<Response> {
+  const { request } = event;
+  const waitUntil = (promise: Promise<unknown>) => event.waitUntil(promise);
+
+  switch (route) {
+    case 'navigation':
+      // Any page of the app is index.html, the URL state is read on the client
+      return networkFirst(fetch(request), () => caches.match(`${config.base}index.html`, { cacheName: SHELL_CACHE }));
+    case 'shell':
+      return cacheFirst(request, SHELL_CACHE);
+    case 'manifest-index': {
+      const network = fetch(request).then((response) => {
+        if (response.ok) waitUntil(updateManifest(response.clone()));
+        return response;
+      });
+      return networkFirst(network, () => caches.match(indexUrl.href, { cacheName: MANIFEST_CACHE }));
+    }
+    case 'manifest-chunk':
+      // Chunk names are content-hashed, a cached chunk never goes stale
+      return cacheFirst(request, MANIFEST_CACHE, undefined, waitUntil);
+    case 'thumb':
+    case 'original': {
+      if (!(await isListed(route, new URL(request.url)))) return fetch(request);
+      return route === 'thumb'
+        ? cacheFirst(request, THUMB_CACHE, config.thumbCacheBytes, waitUntil)
+        : cacheFirst(request, ORIGINAL_CACHE, config.originalCacheBytes, waitUntil);
+    }
+  }
+}
+
+// Thumbnails the build listed, minus any the current manifest dropped. Already
+// cached ones are kept, so an update only fetches what's new
+async function precacheThumbs(): Promise<void> {
+  for (const fileName of config.precacheThumbs) {
+    const url = new URL(`${thumbsPath}${fileName}`, sw.location.href);
+    if (await isListed('thumb', url)) await cacheFirst(new Request(url), THUMB_CACHE);
+  }
+}
+
+// The shell has to be complete, the manifest and thumbnails are a bonus for the
+// first offline visit
+async function install(): Promise<void> {
+  const shell = await caches.open(SHELL_CACHE);
+  await shell.addAll([...shellPaths]);
+
+  try {
+    const response = await fetch(indexUrl.href, { cache: 'no-cache' });
+    if (response.ok) await updateManifest(response);
+  } catch (error) {
+    console.warn('Manifest not cached', error);
+  }
+
+  try {
+    await precacheThumbs();
+  } catch (error) {
+    console.warn('Thumbnails not precached', error);
+  }
+}
+
+async function activate(): Promise<void> {
+  for (const name of await caches.keys()) {
+    if (OWN_CACHE_PATTERN.test(name) && !CURRENT_CACHES.includes(name)) await caches.delete(name);
+  }
+  await sw.clients.claim();
+}
+
+// Served from the HTTP cache, the page fetched them moments ago
+async function cacheImages(urls: string[]): Promise<void> {
+  for (const href of urls) {
+    const request = new Request(href);
+    const route = getRoute(request);
+    if (route !== 'thumb' && route !== 'original') continue;
+    if (!(await isListed(route, new URL(href)))) continue;
+    await (route === 'thumb'
+      ? cacheFirst(request, THUMB_CACHE, config.thumbCacheBytes)
+      : cacheFirst(request, ORIGINAL_CACHE, config.originalCacheBytes));
+  }
+}
+
+sw.addEventListener('install', (event) => {
+  event.waitUntil(install().then(() => sw.skipWaiting()));
+});
+
+sw.addEventListener('activate', (event) => {
+  event.waitUntil(activate());
+});
+
+sw.addEventListener('fetch', (event) => {
+  const route = getRoute(event.request);
+  if (route) event.respondWith(handleFetch(event, route));
+});
+
+sw.addEventListener('message', (event) => {
+  const message = event.data as CacheImagesMessage | undefined;
+  if (message?.type === 'cache-images' && Array.isArray(message.urls)) {
+    event.waitUntil(cacheImages(message.urls).catch((error) => console.warn('Images not cached', error)));
+  }
+});
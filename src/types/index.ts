@@ -1,15 +1,47 @@
-export interface ImageMeta {
+export interface ImageMeta extends ImageMetadata {
   id: string;
   width: number;
   height: number;
   aspectRatio: number;
+  // Tiny blurred preview as a data URI, shown until the real image loads
+  placeholder?: string;
+  // Dominant colour as `#rrggbb`, painted before anything else
+  dominantColor?: string;
+  // Content hash of the source file
+  hash?: string;
+  // Content-hashed resized copies in /images/thumbs/, file names keyed by format and width
+  derivatives?: Partial<Record<ImageFormat, Partial<Record<string, string>>>>;
 }
 
+// Hand-written details from the `<id>.json` sidecar next to the source, merged into ImageMeta
+export interface ImageMetadata {
+  caption?: string;
+  // Link to the channel post, `https://t.me/<channel>/<message>`
+  postUrl?: string;
+  // Publication date, `YYYY-MM-DD` or a full ISO timestamp
+  date?: string;
+  credit?: string;
+  tags?: string[];
+}
+
+export type ImageFormat = 'avif' | 'webp' | 'jpeg';
+
 export interface ImageManifest {
   images: ImageMeta[];
   version: number;
 }
 
+// `public/manifest/index.json`, the entry point the app fetches at start
+export interface ManifestIndex {
+  version: number;
+  // Across all chunks, so the layout can size the world before they've all arrived
+  imageCount: number;
+  // Across all chunks too, for the world size. Missing in indexes written before it was added
+  averageAspectRatio?: number;
+  // Chunk file names relative to the index, each an ImageManifest, in load order
+  chunks: string[];
+}
+
 export interface TileCoord {
   x: number;
   y: number;
@@ -21,4 +53,8 @@ export interface PlacedImage {
   y: number;
   width: number;
   height: number;
+  // Degrees around the tile centre, only set by layouts that tilt photos
+  rotation?: number;
+  // Stacking order for layouts where tiles overlap
+  zIndex?: number;
 }
@@ -1,19 +1,98 @@
-import { defineConfig, type Plugin } from 'vite'
+import { createHash } from 'node:crypto'
+import { statSync } from 'node:fs'
+import { basename, resolve } from 'node:path'
+import { defineConfig, type Logger, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
-import { generatePrerender } from './scripts/prerender-html'
+import { readManifestChunks } from './scripts/manifest-chunks'
+import { DEFAULT_PRELOAD_COUNT, findStrayPreloads, generatePrerender } from './scripts/prerender-html'
+import { DEFAULT_LAYOUT_CONFIG, isLayoutEngineName } from './src/lib/layout'
+import type { LayoutConfig } from './src/lib/layout'
+import { createImageUrlProvider, PICTURE_FORMATS } from './src/lib/imageProviders'
+import type { ImageProviderEnv } from './src/lib/imageProviders'
+import { MANIFEST_VERSION } from './src/lib/manifest'
+import type { ServiceWorkerConfig } from './src/lib/serviceWorkerConfig'
+import { createWebManifest, SITE_CONFIG, WEB_MANIFEST_FILE } from './src/lib/siteConfig'
+
+interface PrerenderPluginOptions {
+  // Prerendered images that also get a `<link rel="preload">`
+  preloadCount?: number
+}
+
+// Plugin to inject pre-rendered HTML for instant FCP, plus preloads for the
+// first images computed from the same layout
+function prerenderPlugin({ preloadCount = DEFAULT_PRELOAD_COUNT }: PrerenderPluginOptions = {}): Plugin {
+  let layoutOverrides: Partial<LayoutConfig> = {}
+  let env: ImageProviderEnv = {}
+  let logger: Logger | undefined
 
-// Plugin to inject pre-rendered HTML for instant FCP
-function prerenderPlugin(): Plugin {
   return {
     name: 'prerender',
     apply: 'build',
+    configResolved(config) {
+      // Prerender with the same engine the app is built with
+      const engine = config.env.VITE_LAYOUT_ENGINE
+      if (isLayoutEngineName(engine)) layoutOverrides = { engine }
+      // Same image URL provider as the app
+      env = config.env
+      logger = config.logger
+    },
     transformIndexHtml(html) {
-      const prerenderedHtml = generatePrerender()
-      // Inject before #root so it shows instantly, React will remove it
-      return html.replace(
-        '<div id="root"></div>',
-        `${prerenderedHtml}<div id="root"></div>`
-      )
+      const prerender = generatePrerender(layoutOverrides, env, preloadCount)
+
+      // Hand-written preloads would fetch images the first paint doesn't show
+      for (const tag of findStrayPreloads(html, prerender)) {
+        logger?.warn(`Preload in index.html doesn't match any prerendered image: ${tag}`)
+      }
+
+      return {
+        // Inject before #root so it shows instantly, React will remove it
+        html: html.replace(
+          '<div id="root"></div>',
+          `${prerender.html}<div id="root"></div>`
+        ),
+        tags: prerender.preloads.map((attrs) => ({ tag: 'link', attrs, injectTo: 'head' as const })),
+      }
+    }
+  }
+}
+
+// Plugin to emit manifest.webmanifest and the matching <head> tags from
+// src/lib/siteConfig.ts. Icons for browsers stay hand-written in index.html
+function webManifestPlugin(): Plugin {
+  let base = '/'
+  let isBuild = false
+  let logger: Logger | undefined
+  const getManifest = () => JSON.stringify(createWebManifest(base), null, 2)
+
+  return {
+    name: 'web-manifest',
+    configResolved(config) {
+      base = config.base
+      isBuild = config.command === 'build'
+      logger = config.logger
+    },
+    configureServer(server) {
+      server.middlewares.use(`${base}${WEB_MANIFEST_FILE}`, (_, res) => {
+        res.setHeader('Content-Type', 'application/manifest+json')
+        res.end(getManifest())
+      })
+    },
+    buildStart() {
+      if (!isBuild) return
+      this.emitFile({ type: 'asset', fileName: WEB_MANIFEST_FILE, source: getManifest() })
+    },
+    transformIndexHtml(html) {
+      // Hand-written copies would disagree with the config sooner or later
+      for (const [tag] of html.matchAll(/<title>|<meta\b[^>]*\bname="(?:description|theme-color)"[^>]*>|<link\b[^>]*\brel="manifest"[^>]*>/g)) {
+        logger?.warn(`index.html has ${tag}, it is generated from src/lib/siteConfig.ts`)
+      }
+
+      return [
+        { tag: 'title', children: SITE_CONFIG.name, injectTo: 'head' },
+        { tag: 'meta', attrs: { name: 'description', content: SITE_CONFIG.description }, injectTo: 'head' },
+        { tag: 'meta', attrs: { name: 'theme-color', content: SITE_CONFIG.themeColor }, injectTo: 'head' },
+        { tag: 'link', attrs: { rel: 'manifest', href: `${base}${WEB_MANIFEST_FILE}` }, injectTo: 'head' },
+      ]
     }
   }
 }
@@ -60,9 +139,98 @@ function inlineCssPlugin(): Plugin {
   }
 }
 
+const MB = 1024 * 1024
+const SERVICE_WORKER_SOURCE = 'src/sw.ts'
+const SERVICE_WORKER_FILE = 'sw.js'
+// Read by src/sw.ts, replaced with the config once the rest of the bundle is final
+const SERVICE_WORKER_CONFIG_PLACEHOLDER = 'self.__SW_CONFIG__'
+
+interface ServiceWorkerPluginOptions {
+  // Cached thumbnails and originals, the oldest go first once over budget
+  thumbCacheBytes?: number
+  originalCacheBytes?: number
+}
+
+// Thumbnails a tile shows at the default row height, in the format <picture>
+// tries first, in manifest order for as long as they fit `budget`. Only static
+// files from the local manifest can be listed at build time
+function getPrecachedThumbs(root: string, env: ImageProviderEnv, budget: number): string[] {
+  const provider = createImageUrlProvider(env)
+  const images = provider.name === 'local' && !env.VITE_MANIFEST_URL ? (readManifestChunks()?.manifest.images ?? []) : []
+  const thumbs: string[] = []
+  let total = 0
+
+  for (const image of images) {
+    const format = PICTURE_FORMATS.find((candidate) => provider.getWidths(image, candidate).length > 0)
+    if (!format) continue
+    const widths = provider.getWidths(image, format)
+    const tileWidth = DEFAULT_LAYOUT_CONFIG.targetRowHeight * image.aspectRatio
+    const fileName = basename(provider.getResizedUrl(image, widths.find((width) => width >= tileWidth) ?? widths[widths.length - 1], format))
+
+    total += statSync(resolve(root, 'public/images/thumbs', fileName)).size
+    if (total > budget) break
+    thumbs.push(fileName)
+  }
+  return thumbs
+}
+
+// Plugin to build src/sw.ts into sw.js with this build's app shell baked in.
+// Runs after inlineCssPlugin so the precached index.html is the final one
+function serviceWorkerPlugin({ thumbCacheBytes = 50 * MB, originalCacheBytes = 30 * MB }: ServiceWorkerPluginOptions = {}): Plugin {
+  let root = ''
+  let base = '/'
+  let manifestUrl = ''
+  let precacheThumbs: string[] = []
+
+  return {
+    name: 'service-worker',
+    enforce: 'post',
+    apply: 'build',
+    configResolved(config) {
+      root = config.root
+      base = config.base
+      // Same manifest the app loads, see getManifestUrl
+      manifestUrl = config.env.VITE_MANIFEST_URL || `${config.base}manifest/index.json`
+      precacheThumbs = getPrecachedThumbs(config.root, config.env, thumbCacheBytes)
+    },
+    buildStart() {
+      this.emitFile({ type: 'chunk', id: resolve(root, SERVICE_WORKER_SOURCE), fileName: SERVICE_WORKER_FILE })
+    },
+    generateBundle(_, bundle) {
+      const worker = bundle[SERVICE_WORKER_FILE]
+      if (worker?.type !== 'chunk') return
+      if (worker.imports.length > 0 || !worker.code.includes(SERVICE_WORKER_CONFIG_PLACEHOLDER)) {
+        this.error(`${SERVICE_WORKER_SOURCE} must be self-contained and read ${SERVICE_WORKER_CONFIG_PLACEHOLDER}`)
+      }
+
+      const precache = Object.keys(bundle)
+        .filter((fileName) => fileName !== SERVICE_WORKER_FILE && !fileName.endsWith('.map'))
+        .sort()
+      // Asset names are content-hashed but index.html isn't, so hash the contents
+      const hash = createHash('sha256')
+      for (const fileName of precache) {
+        const output = bundle[fileName]
+        hash.update(fileName).update(output.type === 'chunk' ? output.code : output.source)
+      }
+
+      const config: ServiceWorkerConfig = {
+        buildId: hash.digest('hex').slice(0, 8),
+        base,
+        precache,
+        precacheThumbs,
+        manifestUrl,
+        manifestVersion: MANIFEST_VERSION,
+        thumbCacheBytes,
+        originalCacheBytes,
+      }
+      worker.code = worker.code.replace(SERVICE_WORKER_CONFIG_PLACEHOLDER, JSON.stringify(config))
+    }
+  }
+}
+
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react(), prerenderPlugin(), inlineCssPlugin()],
+  plugins: [react(), webManifestPlugin(), prerenderPlugin(), inlineCssPlugin(), serviceWorkerPlugin()],
   build: {
     cssCodeSplit: false,
   }